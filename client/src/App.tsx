@@ -1,10 +1,26 @@
 import { Switch, Route } from "wouter";
 import { Home } from "@/pages/Home";
+import { History } from "@/pages/History";
+import { Login } from "@/pages/Login";
+import { Register } from "@/pages/Register";
+import { ForgotPassword } from "@/pages/ForgotPassword";
+import { ResetPassword } from "@/pages/ResetPassword";
+import { Workspace } from "@/pages/Workspace";
+import { AcceptInvitation } from "@/pages/AcceptInvitation";
+import { ApiKeys } from "@/pages/ApiKeys";
 
 function App() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/history" component={History} />
+      <Route path="/login" component={Login} />
+      <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/workspace" component={Workspace} />
+      <Route path="/invitations/accept" component={AcceptInvitation} />
+      <Route path="/settings/api-keys" component={ApiKeys} />
     </Switch>
   );
 }
@@ -0,0 +1,26 @@
+import type { ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type AuthCardProps = {
+  title: string;
+  description?: string;
+  children: ReactNode;
+  footer?: ReactNode;
+};
+
+export function AuthCard({ title, description, children, footer }: AuthCardProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 p-8 flex items-start justify-center">
+      <Card className="w-full max-w-md mt-16">
+        <CardHeader>
+          <CardTitle className="text-2xl">{title}</CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          {children}
+          {footer && <div className="mt-6 text-sm text-center text-gray-600">{footer}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
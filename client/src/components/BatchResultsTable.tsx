@@ -0,0 +1,89 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { similarRecordingNote, stemSummary, type JobTrack } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+type BatchResultsTableProps = {
+  tracks: JobTrack[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+};
+
+export function BatchResultsTable({ tracks, selectedIndex, onSelect }: BatchResultsTableProps) {
+  const aiCount = tracks.filter((track) => track.result?.isAi).length;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        {aiCount} of {tracks.length} tracks detected as AI generated
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>File</TableHead>
+            <TableHead>Verdict</TableHead>
+            <TableHead className="text-right">Confidence</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tracks.map((track, index) => (
+            <TableRow
+              key={track.uploadId}
+              onClick={() => onSelect(index)}
+              data-state={index === selectedIndex ? "selected" : undefined}
+              className="cursor-pointer"
+            >
+              <TableCell className="text-gray-500">{index + 1}</TableCell>
+              <TableCell className="max-w-xs text-left" title={track.fileName}>
+                <div className="truncate">{track.fileName}</div>
+                {track.similarTo && (
+                  <div className="text-xs text-gray-500 truncate" title={similarRecordingNote(track.similarTo)}>
+                    Same recording as #{track.similarTo.uploadId} ({Math.round(track.similarTo.similarity * 100)}% similar)
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                {track.result ? (
+                  <>
+                    <Badge variant={track.result.isAi ? "destructive" : "secondary"}>
+                      {track.result.isAi ? "AI Generated" : "Human Created"}
+                    </Badge>
+                    {track.result.cachedFrom && (
+                      <Badge
+                        variant="outline"
+                        className="ml-2"
+                        title={`Verdict of an earlier analysis on ${format(new Date(track.result.cachedFrom.analyzedAt), "yyyy-MM-dd HH:mm")}`}
+                      >
+                        Cached
+                      </Badge>
+                    )}
+                    {track.result.stems && (
+                      <div className="mt-1 text-xs text-gray-500">{stemSummary(track.result.stems)}</div>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-gray-400">—</span>
+                )}
+              </TableCell>
+              <TableCell className={cn(
+                "text-right font-medium",
+                track.result?.isAi ? "text-red-500" : "text-green-500"
+              )}>
+                {track.result ? `${track.result.confidence}%` : "—"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { useUser } from "@/hooks/use-user";
+
+// Header widget: the logged-in user's workspace, email and a logout button, or a login link
+export function UserMenu() {
+  const { user, isLoading, logoutMutation } = useUser();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!user) {
+    return (
+      <Link href="/login" className="text-sm font-medium text-primary hover:underline">
+        Log in
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <WorkspaceSwitcher />
+      <span className="text-gray-600">{user.email}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+      >
+        Log out
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import WaveSurfer from "wavesurfer.js";
+import RegionsPlugin from "wavesurfer.js/dist/plugins/regions.js";
+import TimelinePlugin from "wavesurfer.js/dist/plugins/timeline.js";
+import { PauseCircle, PlayCircle, ZoomIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import type { AudioSegment } from "@/lib/api";
+
+type WaveformViewProps = {
+  file: File;
+  // The verdicts of a segmented analysis, drawn over the waveform and in a heat strip under it
+  segments: AudioSegment[] | null;
+  className?: string;
+};
+
+type SegmentSpan = {
+  segment: AudioSegment;
+  start: number;
+  end: number;
+};
+
+// A run of consecutive segments that sound AI generated
+type SuspiciousRegion = {
+  start: number;
+  end: number;
+  confidence: number;
+};
+
+const MAX_ZOOM = 200; // pixels per second
+
+// Segments overlap, so each is drawn from halfway through its overlap with the previous one to
+// halfway through its overlap with the next
+function segmentSpans(segments: AudioSegment[]): SegmentSpan[] {
+  return segments.map((segment, index) => ({
+    segment,
+    start: index > 0 ? (segment.start + segments[index - 1].end) / 2 : segment.start,
+    end: index < segments.length - 1 ? (segment.end + segments[index + 1].start) / 2 : segment.end,
+  }));
+}
+
+function suspiciousRegions(spans: SegmentSpan[]): SuspiciousRegion[] {
+  const regions: SuspiciousRegion[] = [];
+  let previous: SegmentSpan | undefined;
+  spans.forEach((span) => {
+    if (!span.segment.isAi) {
+      previous = span;
+      return;
+    }
+    const last = regions[regions.length - 1];
+    if (previous?.segment.isAi && last) {
+      last.end = span.end;
+      last.confidence = Math.max(last.confidence, span.segment.confidence ?? 0);
+    } else {
+      regions.push({ start: span.start, end: span.end, confidence: span.segment.confidence ?? 0 });
+    }
+    previous = span;
+  });
+  return regions;
+}
+
+// How likely a segment is to be AI generated, from 0 to 100, whichever way the detector leaned
+function aiLikelihood(segment: AudioSegment) {
+  const confidence = segment.confidence ?? 50;
+  return segment.isAi ? confidence : 100 - confidence;
+}
+
+// From green for likely human, through yellow, to red for likely AI
+function likelihoodColor(likelihood: number, alpha = 1) {
+  return `hsla(${Math.round(120 * (1 - likelihood / 100))}, 75%, 50%, ${alpha})`;
+}
+
+function formatTime(seconds: number) {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+export function WaveformView({ file, segments, className }: WaveformViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [zoom, setZoom] = useState(0);
+  // The part of the track in view, which the heat strip follows when zoomed in
+  const [view, setView] = useState<{ start: number; end: number } | null>(null);
+
+  const spans = segments ? segmentSpans(segments) : [];
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+
+    const wavesurfer = WaveSurfer.create({
+      container: containerRef.current,
+      waveColor: '#4f46e5',
+      progressColor: '#312e81',
+      cursorWidth: 1,
+      height: 80,
+      normalize: true,
+      fillParent: true,
+      mediaControls: true,
+      autoplay: false,
+      interact: true,
+      autoScroll: true,
+      plugins: [TimelinePlugin.create({ height: 16, formatTimeCallback: formatTime })],
+    });
+    wavesurferRef.current = wavesurfer;
+    setZoom(0);
+    setView(null);
+
+    if (segments) {
+      const regions = wavesurfer.registerPlugin(RegionsPlugin.create());
+      wavesurfer.on('decode', () => {
+        segmentSpans(segments).forEach(({ segment, start, end }) => {
+          const region = regions.addRegion({
+            start,
+            end,
+            color: likelihoodColor(aiLikelihood(segment), 0.25),
+            drag: false,
+            resize: false,
+          });
+          region.element.title = `${formatTime(segment.start)}–${formatTime(segment.end)}: ${segment.isAi ? "AI" : "Human"}, ${segment.confidence}%`;
+        });
+      });
+      regions.on('region-clicked', (region, event) => {
+        event.stopPropagation();
+        region.play();
+      });
+    }
+
+    const updateView = () => {
+      const duration = wavesurfer.getDuration();
+      const pixelsPerSecond = wavesurfer.options.minPxPerSec;
+      const visible = pixelsPerSecond > 0 ? wavesurfer.getWidth() / pixelsPerSecond : duration;
+      const start = pixelsPerSecond > 0 ? wavesurfer.getScroll() / pixelsPerSecond : 0;
+      setView({ start, end: Math.min(duration, start + visible) });
+    };
+    wavesurfer.on('decode', updateView);
+    wavesurfer.on('zoom', updateView);
+    wavesurfer.on('scroll', (start, end) => setView({ start, end }));
+    wavesurfer.on('play', () => setIsPlaying(true));
+    wavesurfer.on('pause', () => setIsPlaying(false));
+    wavesurfer.on('finish', () => setIsPlaying(false));
+
+    const fileUrl = URL.createObjectURL(file);
+    wavesurfer.load(fileUrl);
+
+    return () => {
+      URL.revokeObjectURL(fileUrl);
+      wavesurfer.destroy();
+      wavesurferRef.current = null;
+    };
+  }, [file, segments]);
+
+  const changeZoom = (value: number) => {
+    setZoom(value);
+    wavesurferRef.current?.zoom(value);
+  };
+
+  const seek = (time: number, play = false) => {
+    const wavesurfer = wavesurferRef.current;
+    if (!wavesurfer) {
+      return;
+    }
+    wavesurfer.setTime(time);
+    if (play) {
+      wavesurfer.play();
+    }
+  };
+
+  const flagged = suspiciousRegions(spans);
+
+  return (
+    <div className={className}>
+      <div ref={containerRef} />
+
+      {segments && view && view.end > view.start && (
+        <div className="relative mt-1 h-3 overflow-hidden rounded-sm bg-gray-100">
+          {spans
+            .filter((span) => span.end > view.start && span.start < view.end)
+            .map((span) => (
+              <button
+                key={span.segment.start}
+                type="button"
+                className="absolute top-0 h-full hover:opacity-75"
+                style={{
+                  left: `${((span.start - view.start) / (view.end - view.start)) * 100}%`,
+                  width: `${((span.end - span.start) / (view.end - view.start)) * 100}%`,
+                  backgroundColor: likelihoodColor(aiLikelihood(span.segment)),
+                }}
+                title={`${formatTime(span.segment.start)}–${formatTime(span.segment.end)}: ${span.segment.isAi ? "AI" : "Human"}, ${span.segment.confidence}%`}
+                onClick={() => seek(span.segment.start)}
+              />
+            ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex items-center gap-3">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => wavesurferRef.current?.playPause()}
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? <PauseCircle className="w-6 h-6" /> : <PlayCircle className="w-6 h-6" />}
+        </Button>
+        <ZoomIn className="w-4 h-4 text-gray-400" />
+        <Slider
+          className="max-w-40"
+          min={0}
+          max={MAX_ZOOM}
+          step={10}
+          value={[zoom]}
+          onValueChange={([value]) => changeZoom(value)}
+          aria-label="Zoom"
+        />
+        {segments && (
+          <div className="ml-auto flex items-center gap-2 text-xs text-gray-500">
+            <span>Human</span>
+            <span
+              className="h-2 w-16 rounded-sm"
+              style={{ background: `linear-gradient(to right, ${likelihoodColor(0)}, ${likelihoodColor(50)}, ${likelihoodColor(100)})` }}
+            />
+            <span>AI</span>
+          </div>
+        )}
+      </div>
+
+      {flagged.length > 0 && (
+        <div className="mt-3 text-left">
+          <p className="text-xs font-medium text-gray-600 mb-1">Suspicious regions</p>
+          <div className="flex flex-wrap gap-2">
+            {flagged.map((region) => (
+              <Button
+                key={region.start}
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => seek(region.start, true)}
+              >
+                {formatTime(region.start)}–{formatTime(region.end)} · {region.confidence}%
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  errorMessage,
+  getWebhook,
+  listWebhookDeliveries,
+  resendWebhookDelivery,
+  rotateWebhookSecret,
+  updateWebhook,
+  type ApiKey,
+  type WebhookDelivery,
+  type WebhookSettings,
+} from "@/lib/api";
+
+const STATUS_VARIANTS: Record<WebhookDelivery["status"], "secondary" | "outline" | "destructive"> = {
+  succeeded: "secondary",
+  pending: "outline",
+  failed: "destructive",
+};
+
+type WebhookDialogProps = {
+  apiKey: ApiKey | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Webhook URL, signing secret and delivery log of one API key
+export function WebhookDialog({ apiKey, onOpenChange }: WebhookDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const apiKeyId = apiKey?.id;
+
+  const webhookKey = ["/api/api-keys", apiKeyId, "webhook"];
+  const deliveriesKey = ["/api/api-keys", apiKeyId, "webhook", "deliveries"];
+
+  const { data: settings } = useQuery<WebhookSettings>({
+    queryKey: webhookKey,
+    queryFn: () => getWebhook(apiKeyId!),
+    enabled: apiKeyId !== undefined,
+    staleTime: 0,
+  });
+
+  const { data: deliveries, isLoading: isDeliveriesLoading, refetch: refetchDeliveries } = useQuery<WebhookDelivery[]>({
+    queryKey: deliveriesKey,
+    queryFn: () => listWebhookDeliveries(apiKeyId!),
+    enabled: apiKeyId !== undefined,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    setUrl(settings?.url ?? "");
+  }, [settings?.url]);
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({ variant: "destructive", title, description: errorMessage(error) });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateWebhook(apiKeyId!, url.trim() || null),
+    onSuccess: (data) => {
+      queryClient.setQueryData(webhookKey, data);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"], exact: true });
+      toast({ title: data.url ? "Webhook saved" : "Webhook removed" });
+    },
+    onError: showError("Could not save webhook"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => rotateWebhookSecret(apiKeyId!),
+    onSuccess: (data) => queryClient.setQueryData(webhookKey, data),
+    onError: showError("Could not rotate secret"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (deliveryId: number) => resendWebhookDelivery(apiKeyId!, deliveryId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: deliveriesKey }),
+    onError: showError("Could not resend webhook"),
+  });
+
+  return (
+    <Dialog open={apiKey !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Webhook for {apiKey?.name}</DialogTitle>
+          <DialogDescription>
+            Analyses submitted with this key are posted here when they finish or fail. Jobs can add their
+            own <code>callbackUrl</code> as well.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <Label htmlFor="webhookUrl">URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="webhookUrl"
+              type="url"
+              placeholder="https://example.com/webhooks/ai-detector"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+            />
+            <Button type="submit" disabled={saveMutation.isPending || url.trim() === (settings?.url ?? "")}>
+              Save
+            </Button>
+          </div>
+        </form>
+
+        {settings?.secret && (
+          <div className="space-y-1">
+            <Label htmlFor="webhookSecret">Signing secret</Label>
+            <div className="flex gap-2">
+              <Input id="webhookSecret" readOnly value={settings.secret} className="font-mono text-xs" />
+              <Button variant="outline" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+                Rotate
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Each request carries <code>X-Webhook-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>, the
+              HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> with this secret.
+            </p>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold">Recent deliveries</h3>
+            <Button variant="ghost" size="icon" onClick={() => refetchDeliveries()} aria-label="Refresh deliveries">
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="border rounded-md max-h-72 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isDeliveriesLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6">
+                      <Loader2 className="w-5 h-5 text-primary animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : deliveries && deliveries.length > 0 ? (
+                  deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(delivery.createdAt), "yyyy-MM-dd HH:mm")}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                      <TableCell className="max-w-[12rem] truncate" title={delivery.url}>
+                        {delivery.url}
+                      </TableCell>
+                      <TableCell title={delivery.lastError ?? undefined}>
+                        <Badge variant={STATUS_VARIANTS[delivery.status]} className="capitalize">
+                          {delivery.status}
+                        </Badge>
+                        {delivery.lastStatusCode !== null && (
+                          <span className="ml-2 text-xs text-gray-500">{delivery.lastStatusCode}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{delivery.attempts}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => resendMutation.mutate(delivery.id)}
+                          disabled={resendMutation.isPending}
+                        >
+                          Resend
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                      No deliveries yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
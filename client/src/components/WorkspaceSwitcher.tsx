@@ -0,0 +1,54 @@
+import { Link } from "wouter";
+import { Settings } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { errorMessage } from "@/lib/api";
+
+// Picks the workspace that uploads and history apply to, with a link to its settings
+export function WorkspaceSwitcher() {
+  const { toast } = useToast();
+  const { workspaces, activeWorkspace, switchMutation } = useWorkspaces();
+
+  if (!activeWorkspace) {
+    return null;
+  }
+
+  const onChange = (value: string) => {
+    switchMutation.mutate(Number(value), {
+      onError: (error) => {
+        toast({
+          variant: "destructive",
+          title: "Could not switch workspace",
+          description: errorMessage(error),
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={String(activeWorkspace.id)} onValueChange={onChange} disabled={switchMutation.isPending}>
+        <SelectTrigger className="h-8 w-44 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={String(workspace.id)}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Link href="/workspace" className="p-1 text-gray-500 hover:text-primary" aria-label="Workspace settings">
+        <Settings className="w-4 h-4" />
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react"
+import type { JobResponse } from "@/lib/api"
+
+// Subscribes to the server-sent event stream of a job and returns its latest state
+export function useJobEvents(jobId: string | null) {
+  const [job, setJob] = useState<JobResponse | null>(null)
+
+  useEffect(() => {
+    setJob(null)
+    if (!jobId) {
+      return
+    }
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`)
+    source.onmessage = (event) => {
+      const current: JobResponse = JSON.parse(event.data)
+      setJob(current)
+      if (["done", "failed", "cancelled"].includes(current.stage)) {
+        source.close()
+      }
+    }
+
+    return () => source.close()
+  }, [jobId])
+
+  return job
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  getCurrentUser,
+  login,
+  logout,
+  register,
+  type Credentials,
+  type User,
+} from "@/lib/api"
+
+const USER_QUERY_KEY = ["/api/user"]
+
+// The logged-in user (null when anonymous) and the actions that change it.
+// Everything cached belongs to the previous identity, so it is dropped on every change.
+export function useUser() {
+  const queryClient = useQueryClient()
+
+  const { data: user, isLoading } = useQuery<User | null>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getCurrentUser,
+  })
+
+  const setUser = (next: User | null) => {
+    queryClient.clear()
+    queryClient.setQueryData(USER_QUERY_KEY, next)
+  }
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => login(credentials),
+    onSuccess: setUser,
+  })
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: Credentials) => register(credentials),
+    onSuccess: setUser,
+  })
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSuccess: () => setUser(null),
+  })
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  }
+}
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  createWorkspace,
+  listWorkspaces,
+  setActiveWorkspace,
+  type WorkspaceList,
+} from "@/lib/api"
+import { useUser } from "@/hooks/use-user"
+
+const WORKSPACES_QUERY_KEY = ["/api/workspaces"]
+
+// The logged-in user's workspaces and the one uploads and history currently apply to.
+// Switching workspace changes what every other query returns, so they are all refetched.
+export function useWorkspaces() {
+  const queryClient = useQueryClient()
+  const { user } = useUser()
+
+  const { data, isLoading } = useQuery<WorkspaceList>({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: listWorkspaces,
+    enabled: !!user,
+  })
+
+  const refetchAll = () => queryClient.invalidateQueries()
+
+  const switchMutation = useMutation({
+    mutationFn: (workspaceId: number) => setActiveWorkspace(workspaceId),
+    onSuccess: refetchAll,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => createWorkspace(name),
+    onSuccess: refetchAll,
+  })
+
+  const workspaces = data?.workspaces ?? []
+  return {
+    workspaces,
+    activeWorkspace: workspaces.find((workspace) => workspace.id === data?.activeWorkspaceId) ?? null,
+    isLoading,
+    switchMutation,
+    createMutation,
+  }
+}
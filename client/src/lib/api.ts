@@ -1,12 +1,275 @@
-import axios from "axios";
+import axios, { type AxiosProgressEvent } from "axios";
+import { STEMS, STEM_LABELS, type Stem } from "@shared/stems";
+
+export type QuotaUsage = {
+  scope: "session" | "ip" | "account";
+  period: "day" | "month";
+  maxUploads?: number;
+  maxMinutes?: number;
+  usedUploads: number;
+  usedMinutes: number;
+  remainingUploads: number | null;
+  remainingMinutes: number | null;
+  resetAt: string;
+};
 
 export type UploadStatusResponse = {
   hasUploaded: boolean;
+  allowed: boolean;
+  remainingUploads: number | null;
+  remainingMinutes: number | null;
+  resetAt: string | null;
+  quotas: QuotaUsage[];
+};
+
+export type JobStage =
+  | "pending"
+  | "fetching"
+  | "transcoding"
+  | "segmenting"
+  | "authenticating"
+  | "uploading"
+  | "separating"
+  | "queued"
+  | "analyzing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export type AnalysisResult = {
+  isAi: boolean;
+  confidence: number;
+  // Present when the verdict was reused from an earlier analysis of the same audio
+  cachedFrom?: { uploadId: number; analyzedAt: string };
+  // The verdict of every window of a segmented analysis, in order
+  segments?: AudioSegment[];
+  // The verdict of every stem of a stem analysis, next to the one for the full mix above
+  stems?: StemVerdicts;
 };
 
-export type AnalysisResponse = {
-  ISAI: boolean;
+export type StemVerdicts = Record<Stem, { isAi: boolean; confidence: number }>;
+
+// A window of a segmented analysis, in seconds from the start of the track
+export type AudioSegment = {
+  start: number;
+  end: number;
+  isAi?: boolean;
+  confidence?: number;
+};
+
+// An earlier analysis of what appears to be the same recording, found by its acoustic fingerprint
+export type SimilarRecording = {
+  uploadId: number;
+  fileName: string;
+  similarity: number; // 0 to 1
+  isAi: boolean;
   confidence: number;
+  analyzedAt: string;
+};
+
+export type JobTrack = {
+  uploadId: number;
+  fileName: string;
+  result?: AnalysisResult;
+  similarTo?: SimilarRecording;
+};
+
+export type JobStep = {
+  message: string;
+  timestamp: string;
+};
+
+export type JobResponse = {
+  id: string;
+  stage: JobStage;
+  tracks: JobTrack[];
+  steps: JobStep[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UploadResponse = {
+  jobId: string;
+};
+
+// Receives the share of the request body sent so far, from 0 to 100
+export type UploadProgressHandler = (percent: number) => void;
+
+function uploadProgress(onProgress?: UploadProgressHandler) {
+  if (!onProgress) {
+    return undefined;
+  }
+  return (event: AxiosProgressEvent) => {
+    if (event.total) {
+      onProgress(Math.round((event.loaded / event.total) * 100));
+    }
+  };
+}
+
+export type AnalysisRecord = {
+  id: number;
+  userId: number | null;
+  workspaceId: number | null;
+  uploadedBy: string | null;
+  fileName: string;
+  sourceUrl: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  duration: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  bitrate: number | null;
+  submittedAudio: SubmittedAudio | null;
+  segments: AudioSegment[] | null;
+  stems: StemVerdicts | null;
+  cachedFromId: number | null;
+  cachedAnalyzedAt: string | null;
+  similarToId: number | null;
+  similarity: number | null;
+  status: JobStage;
+  isAi: boolean | null;
+  confidenceScore: string | null;
+  errorReason: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+// What the detector received: the upload itself, or its transcoded copy
+export type SubmittedAudio = {
+  transcoded: boolean;
+  mimeType: string;
+  fileSize: number;
+  duration: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  bitrate: number | null;
+};
+
+export type AnalysisSortField = "createdAt" | "fileName" | "confidence" | "verdict" | "status";
+
+export type AnalysesQuery = {
+  verdict?: "ai" | "human";
+  minConfidence?: number;
+  maxConfidence?: number;
+  from?: string;
+  to?: string;
+  fileName?: string;
+  sort?: AnalysisSortField;
+  order?: "asc" | "desc";
+  page?: number;
+  pageSize?: number;
+};
+
+export type AnalysesPage = {
+  items: AnalysisRecord[];
+  page: number;
+  pageSize: number;
+  total: number;
+};
+
+// Prefers the message our API puts in error responses over axios' generic one
+export function errorMessage(error: unknown): string {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === "string") {
+    return error.response.data.error;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// "This appears to be the same recording as analysis #123 (verdict: AI, 94%)"
+export function similarRecordingNote(similar: SimilarRecording): string {
+  return `This appears to be the same recording as analysis #${similar.uploadId} (verdict: ${similar.isAi ? "AI" : "Human"}, ${similar.confidence}%)`;
+}
+
+// "AI in vocals, drums" or "No stem sounds AI generated"
+export function stemSummary(stems: StemVerdicts): string {
+  const flagged = STEMS.filter((stem) => stems[stem].isAi);
+  return flagged.length > 0
+    ? `AI in ${flagged.map((stem) => STEM_LABELS[stem].toLowerCase()).join(", ")}`
+    : "No stem sounds AI generated";
+}
+
+export type User = {
+  id: number;
+  email: string;
+  createdAt: string;
+};
+
+export type Credentials = {
+  email: string;
+  password: string;
+};
+
+export type WorkspaceRole = "owner" | "reviewer" | "viewer";
+
+export type Workspace = {
+  id: number;
+  name: string;
+  role: WorkspaceRole;
+};
+
+export type WorkspaceList = {
+  activeWorkspaceId: number;
+  workspaces: Workspace[];
+};
+
+export type WorkspaceMember = {
+  userId: number;
+  email: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+};
+
+export type ApiKey = {
+  id: number;
+  name: string;
+  prefix: string;
+  createdBy: string;
+  rateLimitPerMinute: number;
+  webhookUrl: string | null;
+  requestCount: number;
+  analysisCount: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+// Only returned when the key is created: `key` is never shown again
+export type CreatedApiKey = Pick<ApiKey, "id" | "name" | "prefix" | "rateLimitPerMinute" | "createdAt"> & {
+  key: string;
+};
+
+export type WebhookSettings = {
+  url: string | null;
+  secret: string | null;
+};
+
+export type WebhookDelivery = {
+  id: number;
+  jobId: string;
+  url: string;
+  event: "analysis.completed" | "analysis.failed";
+  payload: unknown;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+export type WorkspaceInvitation = {
+  id: number;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  createdAt: string;
+};
+
+// The link is only returned when the invitation is created
+export type CreatedInvitation = WorkspaceInvitation & {
+  acceptUrl: string;
 };
 
 export async function checkUploadStatus(): Promise<UploadStatusResponse> {
@@ -14,14 +277,188 @@ export async function checkUploadStatus(): Promise<UploadStatusResponse> {
   return response.data;
 }
 
-export async function uploadAudio(file: File): Promise<AnalysisResponse> {
+// `force` has audio that was analyzed before analyzed again, instead of reusing its verdict;
+// `segmented` has every track analyzed window by window; `stems` has every track separated into
+// vocals, drums, bass and other, each analyzed along with the full mix
+export type AnalysisOptions = {
+  force?: boolean;
+  segmented?: boolean;
+  stems?: boolean;
+};
+
+// Options go before the files, so the server has them by the time the files arrive
+function appendOptions(formData: FormData, options: AnalysisOptions) {
+  formData.append("force", String(options.force ?? false));
+  formData.append("segmented", String(options.segmented ?? false));
+  formData.append("stems", String(options.stems ?? false));
+}
+
+export async function uploadAudio(file: File, onProgress?: UploadProgressHandler, options: AnalysisOptions = {}): Promise<UploadResponse> {
   const formData = new FormData();
+  appendOptions(formData, options);
   formData.append("audio", file);
 
   const response = await axios.post("/api/upload", formData, {
     headers: {
       "Content-Type": "multipart/form-data",
     },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+  return response.data;
+}
+
+export async function uploadAudioBatch(files: File[], onProgress?: UploadProgressHandler, options: AnalysisOptions = {}): Promise<UploadResponse> {
+  const formData = new FormData();
+  appendOptions(formData, options);
+  files.forEach((file) => formData.append("audio", file));
+
+  const response = await axios.post("/api/upload/batch", formData, {
+    headers: {
+      "Content-Type": "multipart/form-data",
+    },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+  return response.data;
+}
+
+export async function analyzeUrl(url: string, options: AnalysisOptions = {}): Promise<UploadResponse> {
+  const response = await axios.post("/api/analyze-url", { url, ...options });
+  return response.data;
+}
+
+export async function cancelJob(jobId: string): Promise<JobResponse> {
+  const response = await axios.delete(`/api/jobs/${jobId}`);
+  return response.data;
+}
+
+export async function getJob(jobId: string): Promise<JobResponse> {
+  const response = await axios.get(`/api/jobs/${jobId}`);
+  return response.data;
+}
+
+export async function listAnalyses(query: AnalysesQuery): Promise<AnalysesPage> {
+  const response = await axios.get("/api/analyses", { params: query });
+  return response.data;
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const response = await axios.get("/api/user", {
+    validateStatus: (status) => status === 200 || status === 401,
   });
+  return response.status === 200 ? response.data : null;
+}
+
+export async function register(credentials: Credentials): Promise<User> {
+  const response = await axios.post("/api/register", credentials);
+  return response.data;
+}
+
+export async function login(credentials: Credentials): Promise<User> {
+  const response = await axios.post("/api/login", credentials);
+  return response.data;
+}
+
+export async function logout(): Promise<void> {
+  await axios.post("/api/logout");
+}
+
+export async function requestPasswordReset(email: string): Promise<{ message: string }> {
+  const response = await axios.post("/api/forgot-password", { email });
   return response.data;
-}
\ No newline at end of file
+}
+
+export async function resetPassword(token: string, password: string): Promise<{ message: string }> {
+  const response = await axios.post("/api/reset-password", { token, password });
+  return response.data;
+}
+
+export async function listWorkspaces(): Promise<WorkspaceList> {
+  const response = await axios.get("/api/workspaces");
+  return response.data;
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const response = await axios.post("/api/workspaces", { name });
+  return response.data;
+}
+
+export async function setActiveWorkspace(workspaceId: number): Promise<Workspace> {
+  const response = await axios.put("/api/workspaces/active", { workspaceId });
+  return response.data;
+}
+
+export async function renameWorkspace(workspaceId: number, name: string): Promise<Workspace> {
+  const response = await axios.patch(`/api/workspaces/${workspaceId}`, { name });
+  return response.data;
+}
+
+export async function listMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+  const response = await axios.get(`/api/workspaces/${workspaceId}/members`);
+  return response.data;
+}
+
+export async function updateMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<void> {
+  await axios.patch(`/api/workspaces/${workspaceId}/members/${userId}`, { role });
+}
+
+export async function removeMember(workspaceId: number, userId: number): Promise<void> {
+  await axios.delete(`/api/workspaces/${workspaceId}/members/${userId}`);
+}
+
+export async function listInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+  const response = await axios.get(`/api/workspaces/${workspaceId}/invitations`);
+  return response.data;
+}
+
+export async function inviteMember(workspaceId: number, email: string, role: WorkspaceRole): Promise<CreatedInvitation> {
+  const response = await axios.post(`/api/workspaces/${workspaceId}/invitations`, { email, role });
+  return response.data;
+}
+
+export async function revokeInvitation(workspaceId: number, invitationId: number): Promise<void> {
+  await axios.delete(`/api/workspaces/${workspaceId}/invitations/${invitationId}`);
+}
+
+export async function acceptInvitation(token: string): Promise<Workspace> {
+  const response = await axios.post("/api/invitations/accept", { token });
+  return response.data;
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const response = await axios.get("/api/api-keys");
+  return response.data;
+}
+
+export async function createApiKey(name: string, rateLimitPerMinute?: number): Promise<CreatedApiKey> {
+  const response = await axios.post("/api/api-keys", { name, rateLimitPerMinute });
+  return response.data;
+}
+
+export async function revokeApiKey(id: number): Promise<void> {
+  await axios.delete(`/api/api-keys/${id}`);
+}
+
+export async function getWebhook(apiKeyId: number): Promise<WebhookSettings> {
+  const response = await axios.get(`/api/api-keys/${apiKeyId}/webhook`);
+  return response.data;
+}
+
+export async function updateWebhook(apiKeyId: number, url: string | null): Promise<WebhookSettings> {
+  const response = await axios.put(`/api/api-keys/${apiKeyId}/webhook`, { url });
+  return response.data;
+}
+
+export async function rotateWebhookSecret(apiKeyId: number): Promise<WebhookSettings> {
+  const response = await axios.post(`/api/api-keys/${apiKeyId}/webhook/rotate-secret`);
+  return response.data;
+}
+
+export async function listWebhookDeliveries(apiKeyId: number): Promise<WebhookDelivery[]> {
+  const response = await axios.get(`/api/api-keys/${apiKeyId}/webhook/deliveries`);
+  return response.data;
+}
+
+export async function resendWebhookDelivery(apiKeyId: number, deliveryId: number): Promise<WebhookDelivery> {
+  const response = await axios.post(`/api/api-keys/${apiKeyId}/webhook/deliveries/${deliveryId}/resend`);
+  return response.data;
+}
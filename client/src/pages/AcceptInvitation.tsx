@@ -0,0 +1,72 @@
+import { Link, useLocation, useSearch } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { AuthCard } from "@/components/AuthCard";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { acceptInvitation, errorMessage } from "@/lib/api";
+
+export function AcceptInvitation() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isLoading } = useUser();
+  const token = new URLSearchParams(useSearch()).get("token");
+
+  const acceptMutation = useMutation({
+    mutationFn: () => acceptInvitation(token!),
+    onSuccess: (workspace) => {
+      queryClient.invalidateQueries();
+      toast({ title: `You joined ${workspace.name}` });
+      navigate("/history");
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Could not accept invitation",
+        description: errorMessage(error),
+      });
+    },
+  });
+
+  if (!token) {
+    return (
+      <AuthCard title="Join a workspace">
+        <p className="text-sm text-gray-600">This invitation link is incomplete.</p>
+      </AuthCard>
+    );
+  }
+
+  if (isLoading) {
+    return null;
+  }
+
+  // Invitations are accepted by the invited account, so anonymous visitors log in first
+  if (!user) {
+    return (
+      <AuthCard
+        title="Join a workspace"
+        description="Log in or register with the email address the invitation was sent to, then open the link again."
+      >
+        <div className="flex gap-2">
+          <Button asChild className="flex-1">
+            <Link href="/login">Log in</Link>
+          </Button>
+          <Button asChild variant="outline" className="flex-1">
+            <Link href="/register">Register</Link>
+          </Button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Join a workspace" description={`You are logged in as ${user.email}.`}>
+      <Button className="w-full" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+        {acceptMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Accept invitation
+      </Button>
+    </AuthCard>
+  );
+}
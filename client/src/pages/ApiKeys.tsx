@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { Link, Redirect } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { UserMenu } from "@/components/UserMenu";
+import { WebhookDialog } from "@/components/WebhookDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import {
+  createApiKey,
+  errorMessage,
+  listApiKeys,
+  revokeApiKey,
+  type ApiKey,
+  type CreatedApiKey,
+} from "@/lib/api";
+
+const API_KEYS_QUERY_KEY = ["/api/api-keys"];
+
+export function ApiKeys() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isLoading: isUserLoading } = useUser();
+  const { activeWorkspace } = useWorkspaces();
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState("");
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const [webhookKey, setWebhookKey] = useState<ApiKey | null>(null);
+
+  const canUseKeys = activeWorkspace !== null && activeWorkspace.role !== "viewer";
+
+  const { data: keys, isLoading } = useQuery<ApiKey[]>({
+    queryKey: API_KEYS_QUERY_KEY,
+    queryFn: listApiKeys,
+    enabled: canUseKeys,
+    staleTime: 0,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => createApiKey(name.trim(), rateLimit ? Number(rateLimit) : undefined),
+    onSuccess: (key) => {
+      setCreatedKey(key);
+      setName("");
+      setRateLimit("");
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Could not create API key", description: errorMessage(error) });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => revokeApiKey(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY }),
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Could not revoke API key", description: errorMessage(error) });
+    },
+  });
+
+  const copyKey = async (key: string) => {
+    await navigator.clipboard.writeText(key);
+    toast({ title: "API key copied" });
+  };
+
+  if (!isUserLoading && !user) {
+    return <Redirect to="/login" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h1 className="text-2xl font-bold">API Keys</h1>
+              <div className="flex items-center gap-4">
+                <Link href="/workspace" className="text-sm font-medium text-primary hover:underline">
+                  Workspace
+                </Link>
+                <UserMenu />
+              </div>
+            </div>
+
+            {activeWorkspace && !canUseKeys ? (
+              <p className="text-sm text-gray-600">
+                Viewers of {activeWorkspace.name} cannot submit analyses, so they cannot use API keys.
+              </p>
+            ) : (
+              <div className="space-y-6">
+                <p className="text-sm text-gray-600">
+                  Keys let scripts and pipelines use the <code>/api/v1/analyses</code> endpoints
+                  {activeWorkspace && <> on behalf of {activeWorkspace.name}</>}. Send the key as{" "}
+                  <code>Authorization: Bearer &lt;key&gt;</code>.
+                </p>
+
+                {createdKey && (
+                  <Alert>
+                    <AlertTitle>Copy your new key now</AlertTitle>
+                    <AlertDescription>
+                      <p className="mb-2">It will not be shown again.</p>
+                      <div className="flex gap-2">
+                        <Input readOnly value={createdKey.key} className="font-mono text-xs" />
+                        <Button variant="outline" size="icon" onClick={() => copyKey(createdKey.key)} aria-label="Copy API key">
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <form
+                  className="grid grid-cols-1 md:grid-cols-[1fr_12rem_auto] gap-4 items-end"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    createMutation.mutate();
+                  }}
+                >
+                  <div className="space-y-1">
+                    <Label htmlFor="keyName">Name</Label>
+                    <Input
+                      id="keyName"
+                      placeholder="Ingestion pipeline"
+                      value={name}
+                      onChange={(event) => setName(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rateLimit">Requests per minute</Label>
+                    <Input
+                      id="rateLimit"
+                      type="number"
+                      min={1}
+                      placeholder="Default"
+                      value={rateLimit}
+                      onChange={(event) => setRateLimit(event.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+                    {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Create key
+                  </Button>
+                </form>
+
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Key</TableHead>
+                        <TableHead>Created by</TableHead>
+                        <TableHead className="text-right">Limit / min</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead className="text-right">Analyses</TableHead>
+                        <TableHead>Last used</TableHead>
+                        <TableHead>Webhook</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {isLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center py-6">
+                            <Loader2 className="w-5 h-5 text-primary animate-spin mx-auto" />
+                          </TableCell>
+                        </TableRow>
+                      ) : keys && keys.length > 0 ? (
+                        keys.map((key) => (
+                          <TableRow key={key.id} className={key.revokedAt ? "opacity-60" : undefined}>
+                            <TableCell>{key.name}</TableCell>
+                            <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                            <TableCell className="max-w-[10rem] truncate" title={key.createdBy}>
+                              {key.createdBy}
+                            </TableCell>
+                            <TableCell className="text-right">{key.rateLimitPerMinute}</TableCell>
+                            <TableCell className="text-right">{key.requestCount}</TableCell>
+                            <TableCell className="text-right">{key.analysisCount}</TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {key.lastUsedAt ? format(new Date(key.lastUsedAt), "yyyy-MM-dd HH:mm") : "Never"}
+                            </TableCell>
+                            <TableCell className="max-w-[10rem] truncate" title={key.webhookUrl ?? undefined}>
+                              {key.webhookUrl ?? "—"}
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              {key.revokedAt ? (
+                                <Badge variant="outline">Revoked</Badge>
+                              ) : (
+                                <>
+                                  <Button variant="ghost" size="sm" onClick={() => setWebhookKey(key)}>
+                                    Webhook
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => revokeMutation.mutate(key.id)}
+                                    disabled={revokeMutation.isPending}
+                                  >
+                                    Revoke
+                                  </Button>
+                                </>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center py-6 text-gray-500">
+                            No API keys yet
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <WebhookDialog apiKey={webhookKey} onOpenChange={(open) => !open && setWebhookKey(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { AuthCard } from "@/components/AuthCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage, requestPasswordReset } from "@/lib/api";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+});
+
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+
+export function ForgotPassword() {
+  const { toast } = useToast();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: ({ email }: ForgotPasswordValues) => requestPasswordReset(email),
+    onSuccess: (data) => setSentMessage(data.message),
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Could not request a reset link",
+        description: errorMessage(error),
+      });
+    },
+  });
+
+  return (
+    <AuthCard
+      title="Reset your password"
+      description="We'll send you a link to choose a new password"
+      footer={
+        <Link href="/login" className="font-medium text-primary hover:underline">
+          Back to login
+        </Link>
+      }
+    >
+      {sentMessage ? (
+        <p className="text-sm text-gray-600">{sentMessage}</p>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => resetMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" autoComplete="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+              {resetMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send reset link
+            </Button>
+          </form>
+        </Form>
+      )}
+    </AuthCard>
+  );
+}
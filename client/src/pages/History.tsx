@@ -0,0 +1,423 @@
+import { useState } from "react";
+import { Link, Redirect } from "wouter";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  listAnalyses,
+  stemSummary,
+  type AnalysesPage,
+  type AnalysesQuery,
+  type AnalysisRecord,
+  type AnalysisSortField,
+} from "@/lib/api";
+import { UserMenu } from "@/components/UserMenu";
+import { useUser } from "@/hooks/use-user";
+import { cn } from "@/lib/utils";
+import { audioFormatByType } from "@shared/audio-formats";
+
+const PAGE_SIZE = 20;
+
+type Filters = {
+  fileName: string;
+  verdict: "all" | "ai" | "human";
+  minConfidence: string;
+  maxConfidence: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = {
+  fileName: "",
+  verdict: "all",
+  minConfidence: "",
+  maxConfidence: "",
+  from: "",
+  to: "",
+};
+
+const COLUMNS: { field: AnalysisSortField; label: string }[] = [
+  { field: "createdAt", label: "Date" },
+  { field: "fileName", label: "File" },
+  { field: "verdict", label: "Verdict" },
+  { field: "confidence", label: "Confidence" },
+  { field: "status", label: "Status" },
+];
+
+function toQuery(filters: Filters): AnalysesQuery {
+  return {
+    fileName: filters.fileName.trim() || undefined,
+    verdict: filters.verdict === "all" ? undefined : filters.verdict,
+    minConfidence: filters.minConfidence === "" ? undefined : Number(filters.minConfidence),
+    maxConfidence: filters.maxConfidence === "" ? undefined : Number(filters.maxConfidence),
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+// Page numbers to show around the current page, with null marking a gap
+function pageWindow(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+// "3:21 · 44.1 kHz · stereo · 320 kbps", once the server has inspected the file
+function audioSummary(record: Pick<AnalysisRecord, "duration" | "sampleRate" | "channels" | "bitrate">) {
+  if (record.duration === null) {
+    return null;
+  }
+  const seconds = Math.round(record.duration);
+  const parts = [`${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`];
+  if (record.sampleRate) {
+    parts.push(`${record.sampleRate / 1000} kHz`);
+  }
+  if (record.channels) {
+    parts.push(record.channels === 1 ? "mono" : record.channels === 2 ? "stereo" : `${record.channels} channels`);
+  }
+  if (record.bitrate) {
+    parts.push(`${Math.round(record.bitrate / 1000)} kbps`);
+  }
+  return parts.join(" · ");
+}
+
+// Only shown when the detector was sent a transcoded copy rather than the upload itself
+function submittedSummary(record: AnalysisRecord) {
+  const submitted = record.submittedAudio;
+  if (!submitted?.transcoded) {
+    return null;
+  }
+  const label = audioFormatByType(submitted.mimeType)?.label ?? submitted.mimeType;
+  const summary = audioSummary(submitted);
+  return `Sent as ${label}${summary ? ` · ${summary}` : ""}`;
+}
+
+function Verdict({ record }: { record: AnalysisRecord }) {
+  if (record.isAi === null) {
+    return <span className="text-gray-400">—</span>;
+  }
+  return (
+    <>
+      <Badge variant={record.isAi ? "destructive" : "secondary"}>
+        {record.isAi ? "AI Generated" : "Human Created"}
+      </Badge>
+      {record.cachedAnalyzedAt && (
+        <Badge
+          variant="outline"
+          className="ml-2"
+          title={`Verdict of an earlier analysis on ${format(new Date(record.cachedAnalyzedAt), "yyyy-MM-dd HH:mm")}`}
+        >
+          Cached
+        </Badge>
+      )}
+      {record.segments && (
+        <div className="mt-1 text-xs text-gray-500">
+          {record.segments.filter((segment) => segment.isAi).length} of {record.segments.length} segments AI
+        </div>
+      )}
+      {record.stems && (
+        <div className="mt-1 text-xs text-gray-500">{stemSummary(record.stems)}</div>
+      )}
+    </>
+  );
+}
+
+export function History() {
+  const { user, isLoading: isUserLoading } = useUser();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<AnalysisSortField>("createdAt");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
+
+  const query: AnalysesQuery = { ...toQuery(filters), sort, order, page, pageSize: PAGE_SIZE };
+
+  const { data, isLoading, isError } = useQuery<AnalysesPage>({
+    queryKey: ["/api/analyses", query],
+    queryFn: () => listAnalyses(query),
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    enabled: !!user,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const toggleSort = (field: AnalysisSortField) => {
+    if (field === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder(field === "fileName" ? "asc" : "desc");
+    }
+    setPage(1);
+  };
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount) {
+      setPage(target);
+    }
+  };
+
+  // History is kept per account, so anonymous visitors are sent to log in
+  if (!isUserLoading && !user) {
+    return <Redirect to="/login" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-5xl mx-auto">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h1 className="text-2xl font-bold">Analysis History</h1>
+              <div className="flex items-center gap-4">
+                <Link href="/" className="text-sm font-medium text-primary hover:underline">
+                  New analysis
+                </Link>
+                <UserMenu />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="space-y-1">
+                <Label htmlFor="fileName">File name</Label>
+                <Input
+                  id="fileName"
+                  placeholder="Search files..."
+                  value={filters.fileName}
+                  onChange={(e) => updateFilter("fileName", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Verdict</Label>
+                <Select
+                  value={filters.verdict}
+                  onValueChange={(value) => updateFilter("verdict", value as Filters["verdict"])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All verdicts</SelectItem>
+                    <SelectItem value="ai">AI Generated</SelectItem>
+                    <SelectItem value="human">Human Created</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Confidence (%)</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="Min"
+                    value={filters.minConfidence}
+                    onChange={(e) => updateFilter("minConfidence", e.target.value)}
+                  />
+                  <span className="text-gray-400">–</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="Max"
+                    value={filters.maxConfidence}
+                    onChange={(e) => updateFilter("maxConfidence", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="from">From</Label>
+                <Input
+                  id="from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilter("from", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="to">To</Label>
+                <Input
+                  id="to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilter("to", e.target.value)}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    setFilters(EMPTY_FILTERS);
+                    setPage(1);
+                  }}
+                >
+                  Clear filters
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map(({ field, label }) => {
+                    const SortIcon = sort !== field ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+                    return (
+                      <TableHead key={field}>
+                        <button
+                          className={cn(
+                            "inline-flex items-center gap-1 hover:text-foreground",
+                            sort === field && "text-foreground"
+                          )}
+                          onClick={() => toggleSort(field)}
+                        >
+                          {label}
+                          <SortIcon className="w-3 h-3" />
+                        </button>
+                      </TableHead>
+                    );
+                  })}
+                  <TableHead>Checked by</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={COLUMNS.length + 1} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 text-primary animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : isError ? (
+                  <TableRow>
+                    <TableCell colSpan={COLUMNS.length + 1} className="text-center py-8 text-red-500">
+                      Could not load analyses
+                    </TableCell>
+                  </TableRow>
+                ) : data && data.items.length > 0 ? (
+                  data.items.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(record.createdAt), "yyyy-MM-dd HH:mm")}
+                      </TableCell>
+                      <TableCell className="max-w-xs" title={record.fileName}>
+                        <div className="truncate">{record.fileName}</div>
+                        {audioSummary(record) && (
+                          <div className="text-xs text-gray-500 truncate">{audioSummary(record)}</div>
+                        )}
+                        {record.similarToId !== null && record.similarity !== null && (
+                          <div className="text-xs text-gray-400 truncate">
+                            Same recording as #{record.similarToId} ({Math.round(record.similarity * 100)}% similar)
+                          </div>
+                        )}
+                        {submittedSummary(record) && (
+                          <div className="text-xs text-gray-400 truncate">{submittedSummary(record)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Verdict record={record} />
+                      </TableCell>
+                      <TableCell>
+                        {record.confidenceScore !== null ? `${record.confidenceScore}%` : "—"}
+                      </TableCell>
+                      <TableCell className="capitalize" title={record.errorReason ?? undefined}>
+                        {record.status}
+                      </TableCell>
+                      <TableCell className="max-w-[12rem] truncate" title={record.uploadedBy ?? undefined}>
+                        {record.uploadedBy ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={COLUMNS.length + 1} className="text-center py-8 text-gray-500">
+                      No analyses match these filters
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            {data && pageCount > 1 && (
+              <Pagination className="mt-6">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={goToPage(page - 1)}
+                      className={cn(page === 1 && "pointer-events-none opacity-50")}
+                    />
+                  </PaginationItem>
+                  {pageWindow(page, pageCount).map((p, index) => (
+                    <PaginationItem key={p ?? `gap-${index}`}>
+                      {p === null ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink href="#" isActive={p === page} onClick={goToPage(p)}>
+                          {p}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={goToPage(page + 1)}
+                      className={cn(page === pageCount && "pointer-events-none opacity-50")}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+
+            {data && (
+              <p className="text-sm text-gray-500 mt-4 text-center">
+                {data.total} {data.total === 1 ? "analysis" : "analyses"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
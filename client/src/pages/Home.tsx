@@ -1,103 +1,207 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Upload, CheckCircle, XCircle, Loader2, PlayCircle, PauseCircle } from "lucide-react";
+import { Upload, CheckCircle, XCircle, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { checkUploadStatus, uploadAudio, type AnalysisResponse, type UploadStatusResponse } from "@/lib/api";
+import { BatchResultsTable } from "@/components/BatchResultsTable";
+import { UserMenu } from "@/components/UserMenu";
+import { WaveformView } from "@/components/WaveformView";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  analyzeUrl,
+  cancelJob,
+  errorMessage,
+  similarRecordingNote,
+  uploadAudio,
+  uploadAudioBatch,
+  type AnalysisOptions,
+  type JobStage,
+  type JobTrack,
+  type UploadStatusResponse,
+} from "@/lib/api";
 import { cn } from "@/lib/utils";
-import WaveSurfer from "wavesurfer.js";
+import { AUDIO_FORMATS, findAudioFormat, supportedFormatLabels } from "@shared/audio-formats";
+import { STEMS, STEM_LABELS } from "@shared/stems";
+
+const MAX_BATCH_FILES = 20;
+
+// Every type a format is known by, so the file picker offers files whichever way the OS labels them
+const AUDIO_ACCEPT = Object.fromEntries(
+  AUDIO_FORMATS.flatMap((format) =>
+    [format.mimeType, ...format.aliases].map((type) => [type, format.extensions])
+  )
+);
+
+// The browser upload to our server fills the bar up to this point, the job stages fill the rest
+const BROWSER_UPLOAD_SHARE = 25;
+
+const STAGE_PROGRESS: Record<JobStage, { value: number; label: string }> = {
+  pending: { value: 25, label: "Waiting for a free worker..." },
+  fetching: { value: 30, label: "Downloading remote audio..." },
+  transcoding: { value: 33, label: "Converting your audio for the detector..." },
+  segmenting: { value: 33, label: "Cutting your audio into segments..." },
+  authenticating: { value: 35, label: "Connecting to IRCAM Amplify..." },
+  uploading: { value: 45, label: "Uploading to IRCAM storage..." },
+  separating: { value: 52, label: "Separating vocals, drums, bass and other..." },
+  queued: { value: 60, label: "Waiting for the detector..." },
+  analyzing: { value: 80, label: "Analyzing your audio file..." },
+  done: { value: 100, label: "Analysis complete" },
+  failed: { value: 0, label: "Analysis failed" },
+  cancelled: { value: 0, label: "Analysis cancelled" },
+};
+
+function quotaSummary(status: UploadStatusResponse) {
+  const parts: string[] = [];
+  if (status.remainingUploads !== null) {
+    parts.push(`${status.remainingUploads} ${status.remainingUploads === 1 ? "upload" : "uploads"}`);
+  }
+  if (status.remainingMinutes !== null) {
+    parts.push(`${status.remainingMinutes} minutes of audio`);
+  }
+  return parts.length > 0 ? `${parts.join(" and ")} remaining` : "";
+}
 
 export function Home() {
   const [isUploading, setIsUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [uploadPercent, setUploadPercent] = useState(0);
+  const [audioUrl, setAudioUrl] = useState("");
   const { toast } = useToast();
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResponse | null>(null);
-  const [currentFile, setCurrentFile] = useState<File | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const waveformRef = useRef<HTMLDivElement>(null);
-  const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const queryClient = useQueryClient();
+  const [tracks, setTracks] = useState<JobTrack[] | null>(null);
+  const [currentFiles, setCurrentFiles] = useState<File[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [segmented, setSegmented] = useState(false);
+  const [stems, setStems] = useState(false);
+
+  const { activeWorkspace } = useWorkspaces();
+  const isViewer = activeWorkspace?.role === "viewer";
 
   const { data: uploadStatus } = useQuery<UploadStatusResponse>({
     queryKey: ["/api/check-upload"],
   });
 
+  const job = useJobEvents(jobId);
+
   useEffect(() => {
-    if (waveformRef.current && currentFile) {
-      wavesurferRef.current = WaveSurfer.create({
-        container: waveformRef.current,
-        waveColor: '#4f46e5',
-        progressColor: '#312e81',
-        cursorWidth: 1,
-        height: 80,
-        normalize: true,
-        splitChannels: false,
-        fillParent: true,
-        mediaControls: true,
-        autoplay: false,
-        interact: true,
-      });
+    if (!job) {
+      return;
+    }
 
-      const fileUrl = URL.createObjectURL(currentFile);
-      wavesurferRef.current.load(fileUrl);
+    if (job.stage === "done" || job.stage === "failed" || job.stage === "cancelled") {
+      queryClient.invalidateQueries({ queryKey: ["/api/check-upload"] });
+    }
 
-      wavesurferRef.current.on('finish', () => {
-        setIsPlaying(false);
+    if (job.stage === "done") {
+      setIsUploading(false);
+      setJobId(null);
+      setTracks(job.tracks);
+    } else if (job.stage === "failed") {
+      setIsUploading(false);
+      setJobId(null);
+      toast({
+        variant: "destructive",
+        title: "Analysis failed",
+        description: job.error,
+      });
+    } else if (job.stage === "cancelled") {
+      setIsUploading(false);
+      setJobId(null);
+      toast({
+        title: "Analysis cancelled",
+        description: job.error,
       });
-
-      return () => {
-        URL.revokeObjectURL(fileUrl);
-        wavesurferRef.current?.destroy();
-      };
-    }
-  }, [currentFile]);
-
-  const togglePlayPause = () => {
-    if (wavesurferRef.current) {
-      if (isPlaying) {
-        wavesurferRef.current.pause();
-      } else {
-        wavesurferRef.current.play();
-      }
-      setIsPlaying(!isPlaying);
     }
-  };
+  }, [job, toast, queryClient]);
+
+  const currentFile = currentFiles[selectedIndex] ?? null;
+  const analysisResult = tracks?.[selectedIndex]?.result ?? null;
+  const segments = analysisResult?.segments ?? null;
+  const stemVerdicts = analysisResult?.stems ?? null;
 
   const uploadMutation = useMutation({
-    mutationFn: uploadAudio,
+    mutationFn: ({ files, options }: { files: File[]; options: AnalysisOptions }) => files.length === 1
+      ? uploadAudio(files[0], setUploadPercent, options)
+      : uploadAudioBatch(files, setUploadPercent, options),
     onSuccess: (data) => {
-      setIsUploading(false);
-      setProgress(100);
-      setAnalysisResult(data);
+      setJobId(data.jobId);
     },
     onError: (error: Error) => {
       setIsUploading(false);
-      setProgress(0);
+      queryClient.invalidateQueries({ queryKey: ["/api/check-upload"] });
       toast({
         variant: "destructive",
         title: "Upload failed",
-        description: error.message,
+        description: errorMessage(error),
       });
     },
   });
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    if (acceptedFiles.length !== 1) {
+  const urlMutation = useMutation({
+    mutationFn: ({ url, options }: { url: string; options: AnalysisOptions }) => analyzeUrl(url, options),
+    onSuccess: (data) => {
+      setJobId(data.jobId);
+    },
+    onError: (error: Error) => {
+      setIsUploading(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/check-upload"] });
+      toast({
+        variant: "destructive",
+        title: "Could not analyze URL",
+        description: errorMessage(error),
+      });
+    },
+  });
+
+  const onSubmitUrl = (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = audioUrl.trim();
+    if (!url) {
+      return;
+    }
+
+    if (uploadStatus?.hasUploaded) {
+      toast({
+        variant: "destructive",
+        title: "Upload limit reached",
+        description: "You have reached the maximum number of uploads allowed",
+      });
+      return;
+    }
+
+    // Remote tracks have no local file to draw a waveform from
+    setIsUploading(true);
+    setUploadPercent(100);
+    setTracks(null);
+    setCurrentFiles([]);
+    setSelectedIndex(0);
+    urlMutation.mutate({ url, options: { segmented, stems } });
+  };
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0 || acceptedFiles.length > MAX_BATCH_FILES) {
       toast({
         variant: "destructive",
         title: "Invalid upload",
-        description: "Please upload a single audio file",
+        description: `Please upload between 1 and ${MAX_BATCH_FILES} audio files`,
       });
       return;
     }
 
-    const file = acceptedFiles[0];
-    if (!file.type.startsWith("audio/")) {
+    if (acceptedFiles.some((file) => !findAudioFormat(file.type, file.name))) {
       toast({
         variant: "destructive",
         title: "Invalid file type",
-        description: "Please upload an audio file",
+        description: `Supported formats: ${supportedFormatLabels()}`,
       });
       return;
     }
@@ -112,53 +216,96 @@ export function Home() {
     }
 
     setIsUploading(true);
-    setProgress(0);
-    setAnalysisResult(null);
-    setCurrentFile(file);
-
-    const interval = setInterval(() => {
-      setProgress((prev) => Math.min(prev + 10, 90));
-    }, 1000);
-
-    try {
-      await uploadMutation.mutateAsync(file);
-    } finally {
-      clearInterval(interval);
-    }
-  }, [uploadMutation, toast, uploadStatus?.hasUploaded]);
+    setUploadPercent(0);
+    setTracks(null);
+    setCurrentFiles(acceptedFiles);
+    setSelectedIndex(0);
+    uploadMutation.mutate({ files: acceptedFiles, options: { segmented, stems } });
+  }, [uploadMutation, toast, uploadStatus?.hasUploaded, segmented, stems]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'audio/*': ['.mp3', '.wav', '.ogg']
-    },
+    accept: AUDIO_ACCEPT,
     disabled: isUploading || uploadStatus?.hasUploaded,
-    maxFiles: 1,
+    maxFiles: MAX_BATCH_FILES,
   });
 
-  const resetAnalysis = () => {
-    setAnalysisResult(null);
-    setCurrentFile(null);
-    if (wavesurferRef.current) {
-      wavesurferRef.current.destroy();
+  // Until the server has received the whole request there is no job yet, only the browser upload
+  const stageProgress = job
+    ? STAGE_PROGRESS[job.stage]
+    : { value: (uploadPercent * BROWSER_UPLOAD_SHARE) / 100, label: `Sending to server... ${uploadPercent}%` };
+  const latestStep = job?.steps[job.steps.length - 1];
+
+  // Verdicts reused from earlier analyses can be replaced by a fresh run on the same audio
+  const hasCachedResults = tracks?.some((track) => track.result?.cachedFrom) ?? false;
+  const reanalyze = () => {
+    setIsUploading(true);
+    setTracks(null);
+    setSelectedIndex(0);
+    if (currentFiles.length > 0) {
+      setUploadPercent(0);
+      uploadMutation.mutate({ files: currentFiles, options: { force: true, segmented, stems } });
+    } else {
+      setUploadPercent(100);
+      urlMutation.mutate({ url: audioUrl.trim(), options: { force: true, segmented, stems } });
     }
   };
 
+  const resetAnalysis = () => {
+    setTracks(null);
+    setCurrentFiles([]);
+    setSelectedIndex(0);
+    setAudioUrl("");
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 p-8">
       <div className="max-w-2xl mx-auto">
         <Card>
           <CardContent className="p-6">
-            <h1 className="text-2xl font-bold mb-6">Audio Analysis</h1>
+            <div className="flex items-center justify-between mb-6">
+              <h1 className="text-2xl font-bold">Audio Analysis</h1>
+              <div className="flex items-center gap-4">
+                <Link href="/history" className="text-sm font-medium text-primary hover:underline">
+                  History
+                </Link>
+                <UserMenu />
+              </div>
+            </div>
 
-            {analysisResult ? (
+            {tracks && tracks.length > 1 ? (
+              <div className="text-center">
+                <BatchResultsTable
+                  tracks={tracks}
+                  selectedIndex={selectedIndex}
+                  onSelect={setSelectedIndex}
+                />
+
+                {currentFile && (
+                  <WaveformView file={currentFile} segments={segments} className="mt-6 mb-6" />
+                )}
+
+                {hasCachedResults && (
+                  <Button variant="outline" className="mt-4 w-full" onClick={reanalyze}>
+                    Re-analyze all tracks
+                  </Button>
+                )}
+
+                <button
+                  onClick={resetAnalysis}
+                  className="mt-4 w-full px-6 py-3 bg-primary text-primary-foreground rounded-md font-medium hover:bg-primary/90 transition-colors"
+                >
+                  Analyze More Files
+                </button>
+              </div>
+            ) : analysisResult ? (
               <div className="text-center p-6">
                 <div className="mb-8">
                   <div className={cn(
                     "w-32 h-32 mx-auto rounded-full border-8 flex items-center justify-center transition-colors",
-                    analysisResult.ISAI ? "border-red-500/20" : "border-green-500/20"
+                    analysisResult.isAi ? "border-red-500/20" : "border-green-500/20"
                   )}>
-                    {analysisResult.ISAI ? (
+                    {analysisResult.isAi ? (
                       <XCircle className="w-16 h-16 text-red-500 animate-in zoom-in duration-300" />
                     ) : (
                       <CheckCircle className="w-16 h-16 text-green-500 animate-in zoom-in duration-300" />
@@ -167,9 +314,9 @@ export function Home() {
                   <div className="mt-6">
                     <h2 className={cn(
                       "text-2xl font-bold mb-2",
-                      analysisResult.ISAI ? "text-red-500" : "text-green-500"
+                      analysisResult.isAi ? "text-red-500" : "text-green-500"
                     )}>
-                      {analysisResult.ISAI ? "AI Generated" : "Human Created"}
+                      {analysisResult.isAi ? "AI Generated" : "Human Created"}
                     </h2>
                     <div className="relative mb-4">
                       <div className="text-4xl font-bold text-primary">
@@ -177,16 +324,54 @@ export function Home() {
                       </div>
                       <p className="text-sm text-gray-500 mt-1">Confidence Score</p>
                     </div>
-                    {currentFile && (
+                    {tracks?.[selectedIndex] && (
+                      <p className="text-sm text-gray-600 mb-4">
+                        File: {tracks[selectedIndex].fileName}
+                      </p>
+                    )}
+                    {segments && (
                       <p className="text-sm text-gray-600 mb-4">
-                        File: {currentFile.name}
+                        {segments.filter((segment) => segment.isAi).length} of {segments.length} segments sound AI generated
+                      </p>
+                    )}
+                    {stemVerdicts && (
+                      <div className="grid grid-cols-4 gap-2 mb-4">
+                        {STEMS.map((stem) => (
+                          <div key={stem} className="rounded-md border p-2">
+                            <p className="text-xs text-gray-500">{STEM_LABELS[stem]}</p>
+                            <p className={cn(
+                              "text-sm font-medium",
+                              stemVerdicts[stem].isAi ? "text-red-500" : "text-green-500"
+                            )}>
+                              {stemVerdicts[stem].isAi ? "AI" : "Human"}
+                            </p>
+                            <p className="text-xs text-gray-500">{stemVerdicts[stem].confidence}%</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {tracks?.[selectedIndex]?.similarTo && (
+                      <p className="text-sm text-amber-600 mb-4">
+                        {similarRecordingNote(tracks[selectedIndex].similarTo!)}
+                      </p>
+                    )}
+                    {analysisResult.cachedFrom && (
+                      <p className="text-xs text-gray-500 mb-4">
+                        Verdict reused from an earlier analysis of this audio on{" "}
+                        {format(new Date(analysisResult.cachedFrom.analyzedAt), "yyyy-MM-dd HH:mm")}
                       </p>
                     )}
                   </div>
                 </div>
 
                 {currentFile && (
-                  <div className="mb-6" ref={waveformRef} />
+                  <WaveformView file={currentFile} segments={segments} className="mb-6" />
+                )}
+
+                {hasCachedResults && (
+                  <Button variant="outline" className="mt-4 w-full" onClick={reanalyze}>
+                    Re-analyze
+                  </Button>
                 )}
 
                 <button
@@ -196,33 +381,114 @@ export function Home() {
                   Analyze Another File
                 </button>
               </div>
+            ) : isViewer ? (
+              <p className="text-sm text-center text-gray-600 py-8">
+                Viewers of {activeWorkspace?.name} can browse its{" "}
+                <Link href="/history" className="font-medium text-primary hover:underline">history</Link>
+                {" "}but not submit new analyses.
+              </p>
             ) : (
-              <div
-                {...getRootProps()}
-                className={cn(
-                  "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
-                  isDragActive ? "border-primary bg-primary/5" : "border-gray-300",
-                  (isUploading || uploadStatus?.hasUploaded) && "cursor-not-allowed opacity-50"
-                )}
-              >
-                <input {...getInputProps()} />
-                {isUploading ? (
-                  <div className="flex flex-col items-center">
-                    <Loader2 className="w-12 h-12 text-primary animate-spin mb-4" />
-                    <p className="text-sm text-gray-600 mb-4">Processing your audio file...</p>
-                    <Progress value={progress} className="h-2 w-full max-w-xs" />
-                  </div>
-                ) : (
-                  <>
-                    <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-sm text-gray-600">
-                      {isDragActive
-                        ? "Drop the audio file here"
-                        : "Drag and drop an audio file, or click to select"}
-                    </p>
-                  </>
+              <>
+                <div
+                  {...getRootProps()}
+                  className={cn(
+                    "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
+                    isDragActive ? "border-primary bg-primary/5" : "border-gray-300",
+                    (isUploading || uploadStatus?.hasUploaded) && "cursor-not-allowed opacity-50"
+                  )}
+                >
+                  <input {...getInputProps()} />
+                  {isUploading ? (
+                    <div className="flex flex-col items-center">
+                      <Loader2 className="w-12 h-12 text-primary animate-spin mb-4" />
+                      <p className="text-sm text-gray-600 mb-1">{stageProgress.label}</p>
+                      <p className="text-xs text-gray-400 mb-4 h-4">{latestStep?.message}</p>
+                      <Progress value={stageProgress.value} className="h-2 w-full max-w-xs" />
+                      {jobId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="mt-4"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            cancelJob(jobId).catch(() => undefined);
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <>
+                      <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-sm text-gray-600">
+                        {isDragActive
+                          ? "Drop the audio files here"
+                          : "Drag and drop audio files, or click to select"}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-1">{supportedFormatLabels()}</p>
+                    </>
+                  )}
+                </div>
+                <form onSubmit={onSubmitUrl} className="mt-4 flex gap-2">
+                  <Input
+                    type="url"
+                    placeholder="Or paste a link to an audio file"
+                    value={audioUrl}
+                    onChange={(e) => setAudioUrl(e.target.value)}
+                    disabled={isUploading || uploadStatus?.hasUploaded}
+                  />
+                  <Button
+                    type="submit"
+                    disabled={isUploading || uploadStatus?.hasUploaded || !audioUrl.trim()}
+                  >
+                    Analyze URL
+                  </Button>
+                </form>
+                <div className="mt-3 flex items-center gap-2">
+                  <Checkbox
+                    id="segmented"
+                    checked={segmented}
+                    onCheckedChange={(checked) => {
+                      setSegmented(checked === true);
+                      if (checked === true) {
+                        setStems(false);
+                      }
+                    }}
+                    disabled={isUploading || uploadStatus?.hasUploaded}
+                  />
+                  <Label htmlFor="segmented" className="text-sm font-normal text-gray-600">
+                    Analyze in segments, for long tracks and DJ mixes
+                  </Label>
+                </div>
+                {/* Stems are separated from whole tracks, so the two modes exclude each other */}
+                <div className="mt-2 flex items-center gap-2">
+                  <Checkbox
+                    id="stems"
+                    checked={stems}
+                    onCheckedChange={(checked) => {
+                      setStems(checked === true);
+                      if (checked === true) {
+                        setSegmented(false);
+                      }
+                    }}
+                    disabled={isUploading || uploadStatus?.hasUploaded}
+                  />
+                  <Label htmlFor="stems" className="text-sm font-normal text-gray-600">
+                    Separate stems (vocals, drums, bass, other) and analyze each
+                  </Label>
+                </div>
+                {uploadStatus && (
+                  <p className={cn(
+                    "mt-3 text-xs text-center",
+                    uploadStatus.hasUploaded ? "text-red-500" : "text-gray-500"
+                  )}>
+                    {uploadStatus.hasUploaded
+                      ? `Upload limit reached${uploadStatus.resetAt ? `, resets ${format(new Date(uploadStatus.resetAt), "PPp")}` : ""}`
+                      : quotaSummary(uploadStatus)}
+                  </p>
                 )}
-              </div>
+              </>
             )}
           </CardContent>
         </Card>
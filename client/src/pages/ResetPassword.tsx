@@ -0,0 +1,106 @@
+import { Link, useLocation, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { AuthCard } from "@/components/AuthCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage, resetPassword } from "@/lib/api";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((values) => values.password === values.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordValues = z.infer<typeof resetPasswordSchema>;
+
+export function ResetPassword() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(useSearch()).get("token");
+
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: ({ password }: ResetPasswordValues) => resetPassword(token!, password),
+    onSuccess: () => {
+      toast({ title: "Password updated", description: "You can now log in with your new password" });
+      navigate("/login");
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Could not reset password",
+        description: errorMessage(error),
+      });
+    },
+  });
+
+  const backToLogin = (
+    <Link href="/login" className="font-medium text-primary hover:underline">
+      Back to login
+    </Link>
+  );
+
+  if (!token) {
+    return (
+      <AuthCard title="Reset your password" footer={backToLogin}>
+        <p className="text-sm text-gray-600">
+          This reset link is incomplete.{" "}
+          <Link href="/forgot-password" className="font-medium text-primary hover:underline">
+            Request a new one
+          </Link>
+        </p>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a new password" footer={backToLogin}>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((values) => resetMutation.mutate(values))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>New password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+            {resetMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Update password
+          </Button>
+        </form>
+      </Form>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,386 @@
+import { useEffect, useState } from "react";
+import { Link, Redirect } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Loader2, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { UserMenu } from "@/components/UserMenu";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import {
+  errorMessage,
+  inviteMember,
+  listInvitations,
+  listMembers,
+  removeMember,
+  renameWorkspace,
+  revokeInvitation,
+  updateMemberRole,
+  type CreatedInvitation,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "@/lib/api";
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  reviewer: "Reviewer",
+  viewer: "Viewer",
+};
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "analyze tracks and manage members",
+  reviewer: "analyze tracks",
+  viewer: "can only browse the history",
+};
+
+function RoleSelect({ value, onChange, disabled }: {
+  value: WorkspaceRole;
+  onChange: (role: WorkspaceRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as WorkspaceRole)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function Workspace() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isLoading: isUserLoading } = useUser();
+  const { activeWorkspace, createMutation } = useWorkspaces();
+  const [name, setName] = useState("");
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("reviewer");
+  const [createdInvitation, setCreatedInvitation] = useState<CreatedInvitation | null>(null);
+
+  const workspaceId = activeWorkspace?.id;
+  const canManage = activeWorkspace?.role === "owner";
+
+  useEffect(() => {
+    setName(activeWorkspace?.name ?? "");
+  }, [activeWorkspace?.name]);
+
+  const { data: members, isLoading: isMembersLoading } = useQuery<WorkspaceMember[]>({
+    queryKey: ["/api/workspaces", workspaceId, "members"],
+    queryFn: () => listMembers(workspaceId!),
+    enabled: workspaceId !== undefined,
+    staleTime: 0,
+  });
+
+  const { data: invitations } = useQuery<WorkspaceInvitation[]>({
+    queryKey: ["/api/workspaces", workspaceId, "invitations"],
+    queryFn: () => listInvitations(workspaceId!),
+    enabled: workspaceId !== undefined && canManage,
+    staleTime: 0,
+  });
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({ variant: "destructive", title, description: errorMessage(error) });
+  };
+  const refetchWorkspace = () => queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+
+  const renameMutation = useMutation({
+    mutationFn: (newName: string) => renameWorkspace(workspaceId!, newName),
+    onSuccess: refetchWorkspace,
+    onError: showError("Could not rename workspace"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: WorkspaceRole }) =>
+      updateMemberRole(workspaceId!, userId, role),
+    onSuccess: refetchWorkspace,
+    onError: showError("Could not change role"),
+  });
+
+  // Leaving a workspace changes which one is active, so everything is refetched
+  const removeMutation = useMutation({
+    mutationFn: (userId: number) => removeMember(workspaceId!, userId),
+    onSuccess: (_data, userId) =>
+      userId === user?.id ? queryClient.invalidateQueries() : refetchWorkspace(),
+    onError: showError("Could not remove member"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () => inviteMember(workspaceId!, inviteEmail.trim(), inviteRole),
+    onSuccess: (invitation) => {
+      setInviteEmail("");
+      setCreatedInvitation(invitation);
+      refetchWorkspace();
+    },
+    onError: showError("Could not invite member"),
+  });
+
+  const copyInvitationLink = async (link: string) => {
+    await navigator.clipboard.writeText(link);
+    toast({ title: "Invitation link copied" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: number) => revokeInvitation(workspaceId!, invitationId),
+    onSuccess: refetchWorkspace,
+    onError: showError("Could not revoke invitation"),
+  });
+
+  if (!isUserLoading && !user) {
+    return <Redirect to="/login" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-3xl mx-auto">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h1 className="text-2xl font-bold">Workspace</h1>
+              <div className="flex items-center gap-4">
+                <Link href="/" className="text-sm font-medium text-primary hover:underline">
+                  New analysis
+                </Link>
+                {activeWorkspace && activeWorkspace.role !== "viewer" && (
+                  <Link href="/settings/api-keys" className="text-sm font-medium text-primary hover:underline">
+                    API keys
+                  </Link>
+                )}
+                <UserMenu />
+              </div>
+            </div>
+
+            {!activeWorkspace ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 text-primary animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-8">
+                <section>
+                  <Label htmlFor="workspaceName">Name</Label>
+                  <form
+                    className="mt-1 flex gap-2"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      renameMutation.mutate(name.trim());
+                    }}
+                  >
+                    <Input
+                      id="workspaceName"
+                      value={name}
+                      onChange={(event) => setName(event.target.value)}
+                      disabled={!canManage}
+                    />
+                    {canManage && (
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        disabled={renameMutation.isPending || !name.trim() || name.trim() === activeWorkspace.name}
+                      >
+                        Rename
+                      </Button>
+                    )}
+                  </form>
+                  <p className="mt-2 text-xs text-gray-500">
+                    You are {activeWorkspace.role === "owner" ? "an" : "a"} {ROLE_LABELS[activeWorkspace.role].toLowerCase()}:
+                    you {ROLE_DESCRIPTIONS[activeWorkspace.role]}.
+                  </p>
+                </section>
+
+                <section>
+                  <h2 className="text-lg font-semibold mb-3">Members</h2>
+                  <div className="border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Role</TableHead>
+                          <TableHead>Joined</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {isMembersLoading ? (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center py-6">
+                              <Loader2 className="w-5 h-5 text-primary animate-spin mx-auto" />
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          members?.map((member) => {
+                            const isSelf = member.userId === user?.id;
+                            return (
+                              <TableRow key={member.userId}>
+                                <TableCell>
+                                  {member.email}
+                                  {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                                </TableCell>
+                                <TableCell>
+                                  {canManage ? (
+                                    <RoleSelect
+                                      value={member.role}
+                                      onChange={(role) => roleMutation.mutate({ userId: member.userId, role })}
+                                      disabled={roleMutation.isPending}
+                                    />
+                                  ) : (
+                                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                                  )}
+                                </TableCell>
+                                <TableCell className="whitespace-nowrap">
+                                  {format(new Date(member.joinedAt), "PP")}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {(canManage || isSelf) && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => removeMutation.mutate(member.userId)}
+                                      disabled={removeMutation.isPending}
+                                    >
+                                      {isSelf ? "Leave" : "Remove"}
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </section>
+
+                {canManage && (
+                  <section>
+                    <h2 className="text-lg font-semibold mb-3">Invitations</h2>
+                    {createdInvitation && (
+                      <Alert className="mb-4">
+                        <AlertTitle>Send this link to {createdInvitation.email}</AlertTitle>
+                        <AlertDescription>
+                          <p className="mb-2">
+                            They join once they accept it with that email address. It will not be shown again.
+                          </p>
+                          <div className="flex gap-2">
+                            <Input readOnly value={createdInvitation.acceptUrl} className="font-mono text-xs" />
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              onClick={() => copyInvitationLink(createdInvitation.acceptUrl)}
+                              aria-label="Copy invitation link"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    <form
+                      className="flex gap-2 mb-4"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        inviteMutation.mutate();
+                      }}
+                    >
+                      <Input
+                        type="email"
+                        placeholder="colleague@example.com"
+                        value={inviteEmail}
+                        onChange={(event) => setInviteEmail(event.target.value)}
+                      />
+                      <RoleSelect value={inviteRole} onChange={setInviteRole} />
+                      <Button type="submit" disabled={inviteMutation.isPending || !inviteEmail.trim()}>
+                        Invite
+                      </Button>
+                    </form>
+                    {invitations && invitations.length > 0 ? (
+                      <ul className="divide-y border rounded-md">
+                        {invitations.map((invitation) => (
+                          <li key={invitation.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                            <span>
+                              {invitation.email}{" "}
+                              <Badge variant="outline" className="ml-2">{ROLE_LABELS[invitation.role]}</Badge>
+                            </span>
+                            <span className="flex items-center gap-2 text-xs text-gray-500">
+                              Expires {format(new Date(invitation.expiresAt), "PP")}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label={`Revoke invitation for ${invitation.email}`}
+                                onClick={() => revokeMutation.mutate(invitation.id)}
+                                disabled={revokeMutation.isPending}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-gray-500">No pending invitations.</p>
+                    )}
+                  </section>
+                )}
+
+                <section>
+                  <h2 className="text-lg font-semibold mb-3">New workspace</h2>
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      createMutation.mutate(newWorkspaceName.trim(), {
+                        onSuccess: () => setNewWorkspaceName(""),
+                        onError: showError("Could not create workspace"),
+                      });
+                    }}
+                  >
+                    <Input
+                      placeholder="Workspace name"
+                      value={newWorkspaceName}
+                      onChange={(event) => setNewWorkspaceName(event.target.value)}
+                    />
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      disabled={createMutation.isPending || !newWorkspaceName.trim()}
+                    >
+                      Create
+                    </Button>
+                  </form>
+                </section>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,178 @@
-import { pgTable, text, serial, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, boolean, integer, real, unique, index, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import type { Stem } from "@shared/stems";
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  resetTokenHash: text("reset_token_hash"),
+  resetTokenExpiresAt: timestamp("reset_token_expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: text("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("workspace_members_workspace_user_unique").on(table.workspaceId, table.userId),
+]);
+
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  email: text("email").notNull(),
+  role: text("role").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: integer("invited_by").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull(),
+  webhookUrl: text("webhook_url"),
+  webhookSecret: text("webhook_secret"),
+  requestCount: integer("request_count").notNull().default(0),
+  analysisCount: integer("analysis_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(),
+  jobId: text("job_id").notNull(),
+  url: text("url").notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: text("id").primaryKey(),
+  status: text("status").notNull().default("pending"),
+  userId: integer("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id),
+  sessionId: text("session_id").notNull(),
+  callbackUrl: text("callback_url"),
+  // Analyze every track again, even when an earlier verdict for the same audio exists
+  force: boolean("force").notNull().default(false),
+  // Cut every track into windows analyzed one by one (see server/segments.ts)
+  segmented: boolean("segmented").notNull().default(false),
+  // Separate every track into stems and analyze each of them as well as the full mix
+  stems: boolean("stems").notNull().default(false),
+  ircamJobId: text("ircam_job_id"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  heartbeatAt: timestamp("heartbeat_at"),
+  deadlineAt: timestamp("deadline_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// The audio the detector actually received: the upload itself, or its transcoded copy
+export interface SubmittedAudio {
+  transcoded: boolean;
+  mimeType: string;
+  fileSize: number;
+  duration: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  bitrate: number | null;
+}
+
+// A window of a segmented analysis, in seconds from the start of the track. The verdict is
+// missing until the detector has answered.
+export interface AudioSegment {
+  start: number;
+  end: number;
+  isAi?: boolean;
+  confidence?: number;
+}
+
+// The verdict for each stem of a track, next to the track's own verdict for the full mix
+export type StemVerdicts = Record<Stem, { isAi: boolean; confidence: number }>;
 
 export const uploads = pgTable("uploads", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id),
+  jobId: text("job_id").references(() => analysisJobs.id),
   sessionId: text("session_id").notNull(),
   ipAddress: text("ip_address").notNull(),
   fileName: text("file_name").notNull(),
-  fileId: text("file_id").notNull(),
+  sourceUrl: text("source_url"),
+  fileSize: integer("file_size"),
+  mimeType: text("mime_type"),
+  storagePath: text("storage_path"),
+  duration: real("duration"),
+  sampleRate: integer("sample_rate"),
+  channels: integer("channels"),
+  bitrate: integer("bitrate"),
+  submittedAudio: jsonb("submitted_audio").$type<SubmittedAudio>(),
+  segments: jsonb("segments").$type<AudioSegment[]>(),
+  stems: jsonb("stems").$type<StemVerdicts>(),
+  contentHash: text("content_hash"),
+  // Set when the verdict was reused from an earlier analysis of the same audio, with its date
+  cachedFromId: integer("cached_from_id").references((): AnyPgColumn => uploads.id),
+  cachedAnalyzedAt: timestamp("cached_analyzed_at"),
+  // Acoustic fingerprint (see server/fingerprint.ts), and the earlier analysis of what appears
+  // to be the same recording, with how similar the two are from 0 to 1
+  fingerprint: text("fingerprint"),
+  similarToId: integer("similar_to_id").references((): AnyPgColumn => uploads.id),
+  similarity: real("similarity"),
+  fileId: text("file_id"),
+  ircamJobId: text("ircam_job_id"),
+  status: text("status").notNull().default("authenticating"),
   isAi: boolean("is_ai"),
   confidenceScore: text("confidence_score"),
+  errorReason: text("error_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("uploads_content_hash_idx").on(table.contentHash),
+]);
+
+export const insertUserSchema = createInsertSchema(users);
+export const selectUserSchema = createSelectSchema(users);
+export type InsertUser = typeof users.$inferInsert;
+export type SelectUser = typeof users.$inferSelect;
+
+export type SelectWorkspace = typeof workspaces.$inferSelect;
+export type SelectWorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type SelectWorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+
+export type SelectApiKey = typeof apiKeys.$inferSelect;
+export type SelectWebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export type SelectAnalysisJob = typeof analysisJobs.$inferSelect;
 
 export const insertUploadSchema = createInsertSchema(uploads);
 export const selectUploadSchema = createSelectSchema(uploads);
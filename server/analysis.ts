@@ -0,0 +1,811 @@
+import type { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import axios from "axios";
+import { z } from "zod";
+import { createWriteStream } from "fs";
+import { readdir, rm, stat } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  jobSignal,
+  logStep,
+  runWithJob,
+  updateJob,
+  type AnalysisResult,
+  type Job,
+  type JobStage,
+  type SimilarRecording
+} from "./jobs";
+import { IrcamClient, ircamClientOptionsFromEnv, type DetectionResult } from "./ircam";
+import { isIrcamMockEnabled, mockIrcamClientOptions } from "./mock-ircam";
+import { IrcamHttpError, InvalidAudioError, JobCancelledError } from "./errors";
+import { probeAudio, type AudioMetadata } from "./audio-probe";
+import { transcodedFileName, transcodeFile, transcodeReason } from "./transcode";
+import { findCachedVerdict, hashFile } from "./dedupe";
+import { assertPublicUrl, publicRequestConfig } from "./outbound";
+import { aggregateSegments, planSegments, segmentFileName } from "./segments";
+import { decodeFingerprint, encodeFingerprint, findSimilarAnalysis, fingerprintFile, fingerprintOptions } from "./fingerprint";
+import { listJobUploads, updateUploadRecord } from "./uploads";
+import { enqueueJob, finishJob, restoreJob, setIrcamJobId, stagingPath, startJobWorkers, type JobOptions } from "./queue";
+import { assertQuota, type Identity } from "./quotas";
+import type { AudioSegment, InsertUpload, SelectAnalysisJob, SelectUpload, StemVerdicts, SubmittedAudio } from "@db/schema";
+import { audioFormatById, findAudioFormat, supportedFormatLabels } from "@shared/audio-formats";
+import { STEMS } from "@shared/stems";
+
+// The upload-and-detect pipeline shared by the browser routes and the public API
+
+// Types
+// Audio is only ever handled as a file on disk, never as a buffer in memory
+export type AudioFile = Pick<Express.Multer.File, "originalname" | "mimetype" | "size" | "path">;
+
+// Constants
+export const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+export const MAX_BATCH_FILES = 20;
+const MIN_AUDIO_DURATION = Number(process.env.AUDIO_MIN_DURATION_SECONDS) || 1;
+const MAX_AUDIO_DURATION = Number(process.env.AUDIO_MAX_DURATION_SECONDS) || 60 * 60; // 1 hour
+const REMOTE_FETCH_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+const MAX_CONCURRENT_STORAGE_UPLOADS = 4;
+const MAX_CONCURRENT_SEPARATIONS = 4;
+// Requests receiving files at the same time; more get a 503 rather than more disk and bandwidth
+const MAX_CONCURRENT_UPLOADS = Number(process.env.UPLOAD_CONCURRENCY) || 10;
+const UPLOAD_TMP_DIR = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), "ai-music-detector", "uploads");
+// A received file left untouched this long belongs to a request that is long gone
+const STALE_UPLOAD_AGE = 60 * 60 * 1000; // 1 hour
+const UPLOAD_CLEANUP_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+// Shared by every job so the OAuth token is only requested when it is missing or about to expire
+const ircam = new IrcamClient(
+  isIrcamMockEnabled() ? mockIrcamClientOptions(logStep) : ircamClientOptionsFromEnv(logStep)
+);
+
+export const httpUrlSchema = z.string().url().refine((value) => /^https?:$/.test(new URL(value).protocol), {
+  message: "Only http and https URLs are supported"
+});
+
+export const analyzeUrlSchema = z.object({
+  url: httpUrlSchema
+});
+
+// Multipart fields can only carry strings
+const booleanField = z.union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")]);
+
+// Sent as multipart fields or in the JSON body, next to the files or url. `force` has audio
+// that already has a verdict analyzed again; `segmented` has every track analyzed window by window;
+// `stems` has every track separated into stems, each analyzed along with the full mix.
+export const analysisOptionsSchema = z.object({
+  force: booleanField.optional(),
+  segmented: booleanField.optional(),
+  stems: booleanField.optional()
+});
+
+// Refinement for every schema built on analysisOptionsSchema: stems are only separated from whole tracks
+export function checkAnalysisModes(options: { segmented?: boolean; stems?: boolean }, context: z.RefinementCtx) {
+  if (options.segmented && options.stems) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["stems"], message: "Cannot be combined with segmented" });
+  }
+}
+
+let activeUploads = 0;
+
+// Multipart parser for the "audio" field of upload requests. Files are streamed to UPLOAD_TMP_DIR
+// as they arrive, so a slow disk slows the client down instead of filling memory. Variant types
+// such as audio/x-wav are replaced by the format's canonical type.
+export const audioUpload = multer({
+  storage: multer.diskStorage({ destination: UPLOAD_TMP_DIR }),
+  limits: { fileSize: MAX_FILE_SIZE },
+  fileFilter: (_req, file, cb) => {
+    const format = findAudioFormat(file.mimetype, file.originalname);
+    if (format) {
+      file.mimetype = format.mimeType;
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Supported formats: ${supportedFormatLabels()}`));
+    }
+  }
+});
+
+// Goes before audioUpload: takes one of the MAX_CONCURRENT_UPLOADS slots, or answers 503 when they
+// are all taken. However the response ends, even by the client going away, the slot is released
+// and any received file the queue did not take over is deleted.
+export function uploadSlot(req: Request, res: Response, next: NextFunction) {
+  if (activeUploads >= MAX_CONCURRENT_UPLOADS) {
+    res.set("Retry-After", "10");
+    return res.status(503).json({ error: "Too many uploads in progress, please try again shortly" });
+  }
+
+  activeUploads++;
+  res.on("close", () => {
+    activeUploads--;
+    const files = req.file ? [req.file] : (req.files as Express.Multer.File[] | undefined) ?? [];
+    files.forEach((file) => removeFile(file.path));
+  });
+  next();
+}
+
+async function removeFile(filePath: string) {
+  try {
+    await rm(filePath, { force: true });
+  } catch (error: any) {
+    console.error('Temp file cleanup error:', { path: filePath, error: error.message });
+  }
+}
+
+// Catches what uploadSlot cannot: partial files of requests that broke off mid-file
+async function removeStaleUploads() {
+  try {
+    const cutoff = Date.now() - STALE_UPLOAD_AGE;
+    for (const name of await readdir(UPLOAD_TMP_DIR)) {
+      const filePath = path.join(UPLOAD_TMP_DIR, name);
+      if ((await stat(filePath)).mtimeMs < cutoff) {
+        await removeFile(filePath);
+      }
+    }
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error('Temp file sweep error:', { error: error.message });
+    }
+  }
+}
+
+removeStaleUploads();
+setInterval(removeStaleUploads, UPLOAD_CLEANUP_INTERVAL).unref();
+
+// Records the uploaded files and queues them for analysis. Throws InvalidAudioError, before
+// anything is recorded, when any file of the batch fails inspection or, for a segmented job, needs
+// too many segments, and QuotaExceededError when together they play for longer than an upload
+// quota has left.
+export async function startJob(identity: Identity, files: AudioFile[], options: JobOptions = {}): Promise<Job> {
+  const inspected: AudioMetadata[] = [];
+  for (const file of files) {
+    // Log file details
+    logStep("Starting file upload", {
+      fileName: file.originalname,
+      fileSize: file.size,
+      mimeType: file.mimetype
+    });
+    const metadata = await inspectAudio(file);
+    if (options.segmented) {
+      checkSegments(file.originalname, metadata.duration);
+    }
+    inspected.push(metadata);
+  }
+  // The quota was checked before the files arrived, but only now is it known how long they play
+  await assertQuota(identity, files.length, inspected.reduce((total, metadata) => total + metadata.duration, 0) / 60);
+
+  return enqueueJob(identity, files.map((file, index) => ({
+    fileName: file.originalname,
+    fileSize: file.size,
+    mimeType: inspected[index].mimeType,
+    path: file.path,
+    audio: audioColumns(inspected[index])
+  })), options);
+}
+
+// Checks what a file really contains and how long it plays, before it goes anywhere near IRCAM.
+// The content only has to match the container of the type it was sent as: an .ogg file may hold
+// Opus audio, and is then recorded with the type of what it holds.
+async function inspectAudio(file: AudioFile): Promise<AudioMetadata> {
+  let metadata: AudioMetadata;
+  try {
+    metadata = await probeAudio(file.path);
+  } catch (error: any) {
+    throw error instanceof InvalidAudioError ? new InvalidAudioError(`${file.originalname}: ${error.message}`) : error;
+  }
+
+  const claimed = findAudioFormat(file.mimetype, file.originalname);
+  if (claimed?.container !== audioFormatById(metadata.format).container) {
+    throw new InvalidAudioError(
+      `${file.originalname}: contains ${audioFormatById(metadata.format).label} audio but was sent as ${file.mimetype}`
+    );
+  }
+  if (metadata.duration < MIN_AUDIO_DURATION) {
+    throw new InvalidAudioError(
+      `${file.originalname}: plays for ${metadata.duration.toFixed(1)}s, audio must be at least ${MIN_AUDIO_DURATION}s long`
+    );
+  }
+  if (metadata.duration > MAX_AUDIO_DURATION) {
+    throw new InvalidAudioError(
+      `${file.originalname}: plays for ${(metadata.duration / 60).toFixed(1)} minutes, audio may be at most ${MAX_AUDIO_DURATION / 60} minutes long`
+    );
+  }
+
+  logStep("Audio inspected", { fileName: file.originalname, ...metadata });
+  return metadata;
+}
+
+function checkSegments(fileName: string, duration: number) {
+  try {
+    planSegments(duration);
+  } catch (error: any) {
+    throw error instanceof InvalidAudioError ? new InvalidAudioError(`${fileName}: ${error.message}`) : error;
+  }
+}
+
+// Who an upload counts against, as identityOf has it for the request that submitted it
+function uploadIdentity(record: SelectUpload): Identity {
+  return {
+    sessionId: record.sessionId,
+    ipAddress: record.ipAddress,
+    userId: record.userId ?? undefined,
+    workspaceId: record.workspaceId ?? undefined,
+    apiKeyId: record.apiKeyId ?? undefined
+  };
+}
+
+function audioColumns(metadata: AudioMetadata) {
+  return {
+    duration: metadata.duration,
+    sampleRate: metadata.sampleRate,
+    channels: metadata.channels,
+    bitrate: metadata.bitrate
+  };
+}
+
+// Records a remote audio URL and queues it to be downloaded and analyzed. URLs of the server's own
+// network are refused with a BlockedAddressError (see outbound.ts).
+export async function startUrlJob(identity: Identity, url: string, options: JobOptions = {}): Promise<Job> {
+  logStep("Starting URL analysis", { url });
+  await assertPublicUrl(url);
+  return enqueueJob(identity, [{ fileName: fileNameFromUrl(url), sourceUrl: url }], options);
+}
+
+// Starts the queue workers that run analysis jobs, including those left over from a previous run
+export function startAnalysisWorkers() {
+  return startJobWorkers(async (row) => {
+    const records = await listJobUploads(row.id);
+    const job = restoreJob(row, records);
+    await runWithJob(job.id, () => runAnalysis(job, records, row));
+  });
+}
+
+// Runs the whole IRCAM pipeline for a job, recording each stage as it goes.
+// All files of a job are submitted to the detector as a single multi-URL request, apart from
+// those whose audio already has a verdict or repeats an earlier track of the job (see dedupeTracks).
+// A segmented job submits every window of its tracks instead (see segments.ts), and a stem job
+// every track's stems after its full mix.
+// A job that already has an IRCAM detection job, from before a restart, only waits for its results.
+async function runAnalysis(job: Job, records: SelectUpload[], row: SelectAnalysisJob) {
+  const startTime = Date.now();
+  const jobId = job.id;
+  const signal = jobSignal(jobId);
+  // Tracks answered with an earlier verdict are done, and take no part in the rest of the job
+  const settled = new Set(records.filter((record) => record.status === "done").map((record) => record.id));
+  const updateRecords = (values: Partial<InsertUpload>) =>
+    Promise.all(job.tracks
+      .filter((track) => !settled.has(track.uploadId))
+      .map((track) => updateUploadRecord(track.uploadId, values)));
+  // Stage changes are written in order, one after the other, and the job waits for the last of
+  // them before recording its outcome, so a late stage cannot overwrite the final status
+  let stageWrites = Promise.resolve();
+  const setStage = (stage: JobStage) => {
+    if (job.stage !== stage) {
+      updateJob(jobId, { stage });
+      stageWrites = stageWrites.then(() => updateRecords({ status: stage })).then(() => undefined);
+      // Marked as handled until then: a failed write surfaces where the job waits for it
+      stageWrites.catch(() => undefined);
+    }
+  };
+
+  try {
+    signal.throwIfAborted();
+
+    let ircamJobId = row.ircamJobId;
+    // For each track, the track whose detector result it takes: itself, or an earlier copy of its audio
+    let sources: number[];
+    let submitted: number[];
+    // For each track, the windows it is analyzed in, or null when it is analyzed as a whole
+    let trackSegments: (AudioSegment[] | null)[];
+    if (ircamJobId) {
+      logStep("Resuming detector job", { ircamJobId });
+      sources = recordedSources(records);
+      submitted = submittedTracks(job, sources, settled);
+      trackSegments = records.map((record) => (row.segmented ? record.segments : null));
+    } else {
+      const loaded = await loadFiles(jobId, records, signal, setStage);
+      // Reloaded, since inspecting remote audio has only now filled in its details
+      const current = await listJobUploads(jobId);
+      // Uploads were checked when they were submitted, remote audio only now that it is downloaded
+      if (row.segmented) {
+        current.forEach((record) => checkSegments(record.fileName, record.duration!));
+      }
+      sources = await dedupeTracks(job, current, loaded, row, settled, signal);
+      submitted = submittedTracks(job, sources, settled);
+      await flagSimilarTracks(job, current, loaded, sources, submitted, signal);
+      trackSegments = current.map((record, index) =>
+        row.segmented && submitted.includes(index) ? planSegments(record.duration!) : null
+      );
+
+      if (submitted.length > 0) {
+        const files = row.segmented
+          ? await cutSegments(
+            jobId,
+            submitted.map((index) => current[index]),
+            submitted.map((index) => loaded[index]),
+            submitted.map((index) => trackSegments[index]!),
+            signal,
+            setStage
+          )
+          : await prepareFiles(
+            jobId,
+            submitted.map((index) => current[index]),
+            submitted.map((index) => loaded[index]),
+            signal,
+            setStage
+          );
+
+        // Authentication
+        setStage("authenticating");
+        await ircam.authenticate();
+
+        // File handling
+        setStage("uploading");
+        const iasUrls = await mapWithConcurrency(files, MAX_CONCURRENT_STORAGE_UPLOADS, async (file, position) => {
+          const { id: fileId } = await ircam.createStorageLocation(signal);
+          // Segments have a storage file each, so only tracks sent as a whole record theirs
+          if (!row.segmented) {
+            await updateUploadRecord(job.tracks[submitted[position]].uploadId, { fileId });
+          }
+          await ircam.uploadFile(fileId, file, signal);
+          const { ias } = await ircam.getStorageFile(fileId, signal);
+          return ias;
+        });
+
+        // Stem separation
+        let audioUrls = iasUrls;
+        if (row.stems) {
+          setStage("separating");
+          const separated = await mapWithConcurrency(iasUrls, MAX_CONCURRENT_SEPARATIONS, async (ias) => {
+            const { id: separationJobId } = await ircam.startSeparation(ias, signal);
+            const stems = await ircam.waitForSeparation(separationJobId, { signal });
+            return [ias, ...STEMS.map((stem) => stems[stem])];
+          });
+          audioUrls = separated.flat();
+        }
+
+        // Analysis
+        ({ id: ircamJobId } = await ircam.startDetection(audioUrls, signal));
+        await setIrcamJobId(jobId, ircamJobId);
+        await updateRecords({ ircamJobId });
+      } else {
+        logStep("Every track already has a verdict");
+      }
+    }
+
+    let results: DetectionResult[] = [];
+    if (ircamJobId) {
+      setStage("queued");
+      results = await ircam.waitForDetection(ircamJobId, {
+        signal,
+        onStatus: (status) => {
+          if (status === "processing") {
+            setStage("analyzing");
+          }
+        }
+      });
+      const expected = submitted.reduce(
+        (total, index) => total + (trackSegments[index]?.length ?? (row.stems ? 1 + STEMS.length : 1)),
+        0
+      );
+      if (results.length !== expected) {
+        throw new Error(`Expected ${expected} results from the detector, got ${results.length}`);
+      }
+    }
+
+    // The detector reports results in the same order as the submitted URLs: one for each track
+    // sent as a whole, one for each window of a segmented track, and one for the full mix of a
+    // separated track followed by one for each of its stems.
+    const detected = new Map<number, AnalysisResult>();
+    let position = 0;
+    for (const index of submitted) {
+      const segments = trackSegments[index];
+      if (segments) {
+        const verdicts = segments.map((segment, offset) => ({
+          ...segment,
+          isAi: results[position + offset].isAi,
+          confidence: results[position + offset].confidence
+        }));
+        detected.set(index, { ...aggregateSegments(verdicts), segments: verdicts });
+        position += segments.length;
+      } else if (row.stems) {
+        const stems = Object.fromEntries(STEMS.map((stem, offset) => [stem, {
+          isAi: results[position + 1 + offset].isAi,
+          confidence: results[position + 1 + offset].confidence
+        }])) as StemVerdicts;
+        detected.set(index, { ...results[position], stems });
+        position += 1 + STEMS.length;
+      } else {
+        detected.set(index, { ...results[position] });
+        position += 1;
+      }
+    }
+
+    // Repeated audio takes the result of its first copy, flagged as reused from it
+    const completedAt = new Date();
+    const tracks = job.tracks.map((track, index) => {
+      if (settled.has(track.uploadId)) {
+        return track;
+      }
+      const source = sources[index];
+      const result: AnalysisResult = { ...detected.get(source)! };
+      if (source !== index) {
+        result.cachedFrom = { uploadId: job.tracks[source].uploadId, analyzedAt: completedAt.toISOString() };
+      }
+      return { ...track, result };
+    });
+    await stageWrites;
+    updateJob(jobId, { stage: "done", tracks });
+    await Promise.all(tracks.map((track, index) => settled.has(track.uploadId)
+      ? undefined
+      : updateUploadRecord(track.uploadId, {
+        status: "done",
+        isAi: track.result!.isAi,
+        confidenceScore: String(track.result!.confidence),
+        segments: track.result!.segments,
+        stems: track.result!.stems,
+        cachedAnalyzedAt: sources[index] !== index ? completedAt : undefined,
+        completedAt
+      })
+    ));
+    await finishJob(jobId, "done");
+  } catch (caught: any) {
+    const processingTime = Date.now() - startTime;
+    // A stage write that failed matters less than why the job stopped
+    await stageWrites.catch(() => undefined);
+
+    // Whatever call was in flight when the job was cancelled, the abort reason is what matters
+    if (signal.aborted && signal.reason instanceof JobCancelledError) {
+      const reason = signal.reason.message || 'Job was cancelled';
+      logStep("Analysis cancelled", { reason, processingTime: `${processingTime}ms` });
+      updateJob(jobId, { stage: "cancelled", error: reason });
+      await updateRecords({ status: "cancelled", errorReason: reason, completedAt: new Date() });
+      await finishJob(jobId, "cancelled", reason);
+      return;
+    }
+
+    // Jobs aborted for any other reason, such as passing their deadline, fail with that reason
+    const error = signal.aborted ? signal.reason : caught;
+    console.error('Upload error:', {
+      jobId,
+      error: error.message,
+      processingTime: `${processingTime}ms`,
+      response: error instanceof IrcamHttpError ? error.body : error.response?.data
+    });
+    updateJob(jobId, {
+      stage: "failed",
+      error: error.message || 'Upload failed'
+    });
+    await updateRecords({
+      status: "failed",
+      errorReason: error.message || 'Upload failed',
+      completedAt: new Date()
+    });
+    await finishJob(jobId, "failed", error.message || 'Upload failed');
+  }
+}
+
+// Hashes the audio of every track. Unless the job is forced, a track whose audio already has a
+// verdict is answered with it straight away (for a segmented or stem job, only by one that has
+// segments or stems); a track repeating the audio of an earlier track of the job is recorded as a
+// copy of it, and takes its result once the detector has run.
+// Returns, for each track, the index of the track whose result it takes.
+async function dedupeTracks(
+  job: Job,
+  records: SelectUpload[],
+  files: AudioFile[],
+  row: SelectAnalysisJob,
+  settled: Set<number>,
+  signal: AbortSignal
+) {
+  const sources: number[] = [];
+  const firstByHash = new Map<string, number>();
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    sources.push(index);
+    if (settled.has(record.id)) {
+      continue;
+    }
+
+    let contentHash = record.contentHash;
+    if (!contentHash) {
+      contentHash = await hashFile(files[index].path, signal);
+      await updateUploadRecord(record.id, { contentHash });
+    }
+
+    const cached = row.force ? undefined : await findCachedVerdict(record, contentHash, row);
+    if (cached) {
+      logStep(`Reusing the verdict for ${record.fileName}`, { uploadId: cached.uploadId, analyzedAt: cached.analyzedAt });
+      settled.add(record.id);
+      await updateUploadRecord(record.id, {
+        status: "done",
+        isAi: cached.isAi,
+        confidenceScore: cached.confidenceScore,
+        cachedFromId: cached.uploadId,
+        cachedAnalyzedAt: cached.analyzedAt,
+        segments: cached.segments,
+        stems: cached.stems,
+        completedAt: new Date()
+      });
+      const result: AnalysisResult = {
+        isAi: cached.isAi,
+        confidence: Number(cached.confidenceScore),
+        cachedFrom: { uploadId: cached.uploadId, analyzedAt: cached.analyzedAt.toISOString() },
+        segments: cached.segments ?? undefined,
+        stems: cached.stems ?? undefined
+      };
+      updateJob(job.id, {
+        tracks: job.tracks.map((track) => (track.uploadId === record.id ? { ...track, result } : track))
+      });
+      continue;
+    }
+
+    const first = firstByHash.get(contentHash);
+    if (first === undefined) {
+      firstByHash.set(contentHash, index);
+    } else {
+      logStep(`${record.fileName} repeats ${records[first].fileName}, analyzing it once`);
+      sources[index] = first;
+      await updateUploadRecord(record.id, { cachedFromId: records[first].id });
+    }
+  }
+  return sources;
+}
+
+// Fingerprints the audio of every submitted track and looks for an earlier analysis of what appears
+// to be the same recording, in another encoding or cut (see fingerprint.ts). A match is only
+// reported next to the track, and shared with its copies; the track is still analyzed. Fingerprints
+// are a hint, so a track that cannot be fingerprinted is analyzed without one.
+async function flagSimilarTracks(
+  job: Job,
+  records: SelectUpload[],
+  files: AudioFile[],
+  sources: number[],
+  submitted: number[],
+  signal: AbortSignal
+) {
+  if (!fingerprintOptions.enabled) {
+    return;
+  }
+
+  for (const index of submitted) {
+    const record = records[index];
+    try {
+      let fingerprint: Uint32Array;
+      if (record.fingerprint) {
+        fingerprint = decodeFingerprint(record.fingerprint);
+      } else {
+        fingerprint = await fingerprintFile(files[index].path, signal);
+        await updateUploadRecord(record.id, { fingerprint: encodeFingerprint(fingerprint) });
+      }
+
+      const similar = await findSimilarAnalysis(record, fingerprint);
+      if (!similar) {
+        continue;
+      }
+      logStep(`${record.fileName} appears to be the same recording as ${similar.fileName}`, {
+        uploadId: similar.uploadId,
+        similarity: similar.similarity
+      });
+      const similarTo: SimilarRecording = { ...similar, analyzedAt: similar.analyzedAt.toISOString() };
+      const copies = records.filter((_, other) => sources[other] === index);
+      await Promise.all(copies.map((copy) =>
+        updateUploadRecord(copy.id, { similarToId: similar.uploadId, similarity: similar.similarity })
+      ));
+      updateJob(job.id, {
+        tracks: job.tracks.map((track) => (copies.some((copy) => copy.id === track.uploadId) ? { ...track, similarTo } : track))
+      });
+    } catch (error: any) {
+      signal.throwIfAborted();
+      console.error('Fingerprint error:', { uploadId: record.id, error: error.message });
+    }
+  }
+}
+
+// The copies dedupeTracks recorded, for a job resumed after its files were submitted
+function recordedSources(records: SelectUpload[]) {
+  return records.map((record, index) => {
+    const source = records.findIndex((other) => other.id === record.cachedFromId);
+    return source >= 0 ? source : index;
+  });
+}
+
+// Tracks sent to the detector: neither answered with an earlier verdict nor a copy of another track
+function submittedTracks(job: Job, sources: number[], settled: Set<number>) {
+  return sources.filter((source, index) => source === index && !settled.has(job.tracks[index].uploadId));
+}
+
+// Uploaded audio is where the queue staged it. Remote audio is downloaded next to it, and kept
+// there for the rest of the job, so a resumed job does not download it again.
+async function loadFiles(jobId: string, records: SelectUpload[], signal: AbortSignal, setStage: (stage: JobStage) => void) {
+  const files: AudioFile[] = [];
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    if (record.storagePath) {
+      const { size } = await stat(record.storagePath);
+      files.push({ originalname: record.fileName, mimetype: record.mimeType!, size, path: record.storagePath });
+      continue;
+    }
+
+    setStage("fetching");
+    const destination = await stagingPath(jobId, String(index));
+    const file = await fetchRemoteAudio(record.sourceUrl!, record.fileName, destination, signal);
+    const metadata = await inspectAudio(file);
+    // Remote audio counts against the quota for as long as it turns out to play
+    await assertQuota(uploadIdentity(record), 0, metadata.duration / 60);
+    await updateUploadRecord(record.id, {
+      fileSize: file.size,
+      mimeType: metadata.mimeType,
+      storagePath: file.path,
+      ...audioColumns(metadata)
+    });
+    files.push({ ...file, mimetype: metadata.mimeType });
+  }
+  return files;
+}
+
+// Settles what each track submits to the detector: the file itself, or a transcoded copy when it
+// is in a format the detector is not sent or too large (see transcode.ts). Either way the submitted
+// audio is recorded next to the original's.
+async function prepareFiles(
+  jobId: string,
+  records: SelectUpload[],
+  files: AudioFile[],
+  signal: AbortSignal,
+  setStage: (stage: JobStage) => void
+) {
+  const submitted: AudioFile[] = [];
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const reason = transcodeReason(file);
+    if (!reason) {
+      const record = records[index];
+      await updateUploadRecord(record.id, {
+        submittedAudio: {
+          transcoded: false,
+          mimeType: file.mimetype,
+          fileSize: file.size,
+          duration: record.duration,
+          sampleRate: record.sampleRate,
+          channels: record.channels,
+          bitrate: record.bitrate
+        }
+      });
+      submitted.push(file);
+      continue;
+    }
+
+    setStage("transcoding");
+    logStep(`Transcoding ${file.originalname}`, { reason });
+    const transcoded = await transcodeFile(file.path, await stagingPath(jobId, `${index}.transcoded`), signal);
+    const submittedAudio: SubmittedAudio = {
+      transcoded: true,
+      mimeType: transcoded.metadata.mimeType,
+      fileSize: transcoded.size,
+      ...audioColumns(transcoded.metadata)
+    };
+    logStep("Transcoded", { fileName: file.originalname, ...submittedAudio });
+    await updateUploadRecord(records[index].id, { submittedAudio });
+    submitted.push({
+      originalname: transcodedFileName(file.originalname),
+      mimetype: transcoded.metadata.mimeType,
+      size: transcoded.size,
+      path: transcoded.path
+    });
+  }
+  return submitted;
+}
+
+// Cuts every track of a segmented job into its windows, encoded in the transcoding format whatever
+// the format of the track (see transcode.ts). The windows are recorded before anything is submitted,
+// so a job resumed after a restart can match the detector's results to them.
+async function cutSegments(
+  jobId: string,
+  records: SelectUpload[],
+  files: AudioFile[],
+  segments: AudioSegment[][],
+  signal: AbortSignal,
+  setStage: (stage: JobStage) => void
+) {
+  setStage("segmenting");
+  const cut: AudioFile[] = [];
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    logStep(`Cutting ${file.originalname} into ${segments[index].length} segments`);
+    for (let position = 0; position < segments[index].length; position++) {
+      const segment = await transcodeFile(
+        file.path,
+        await stagingPath(jobId, `${index}.segment-${position}`),
+        signal,
+        segments[index][position]
+      );
+      cut.push({
+        originalname: transcodedFileName(segmentFileName(file.originalname, position)),
+        mimetype: segment.metadata.mimeType,
+        size: segment.size,
+        path: segment.path
+      });
+    }
+    await updateUploadRecord(records[index].id, { segments: segments[index] });
+  }
+  return cut;
+}
+
+// Streams a remote audio file to `destination`, applying the same type and size rules as direct uploads
+async function fetchRemoteAudio(url: string, fileName: string, destination: string, signal: AbortSignal): Promise<AudioFile> {
+  logStep(`Downloading ${fileName}`);
+
+  let response;
+  try {
+    response = await axios.get<Readable>(url, {
+      ...publicRequestConfig(url),
+      responseType: "stream",
+      timeout: REMOTE_FETCH_TIMEOUT,
+      maxRedirects: 5,
+      signal
+    });
+  } catch (error: any) {
+    throw new Error(`Could not download ${url}: ${error.response?.status ?? error.message}`);
+  }
+
+  // Servers often send audio as a generic binary type, in which case the extension decides
+  const mimetype = findAudioFormat(String(response.headers["content-type"] ?? ""), fileName)?.mimeType;
+  if (!mimetype) {
+    response.data.destroy();
+    throw new Error(`Invalid file type. Supported formats: ${supportedFormatLabels()}`);
+  }
+
+  const tooLarge = new Error(`Remote file exceeds the maximum size of ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+  if (Number(response.headers["content-length"]) > MAX_FILE_SIZE) {
+    response.data.destroy();
+    throw tooLarge;
+  }
+
+  // The declared length may be missing or wrong, so the bytes are counted as they arrive
+  let size = 0;
+  const limitSize = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      callback(size > MAX_FILE_SIZE ? tooLarge : null, chunk);
+    }
+  });
+
+  try {
+    await pipeline(response.data, limitSize, createWriteStream(destination), { signal });
+  } catch (error: any) {
+    await removeFile(destination);
+    throw error === tooLarge || signal.aborted ? error : new Error(`Could not download ${url}: ${error.message}`);
+  }
+
+  logStep("Remote file downloaded", { fileName, fileSize: size, mimeType: mimetype });
+  return { originalname: fileName, mimetype, size, path: destination };
+}
+
+function fileNameFromUrl(url: string) {
+  const lastSegment = new URL(url).pathname.split("/").filter(Boolean).pop();
+  try {
+    return lastSegment ? decodeURIComponent(lastSegment) : "remote-audio";
+  } catch {
+    return lastSegment!;
+  }
+}
+
+// Like Promise.all over items.map(fn), but with at most `limit` calls in flight
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,244 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { apiKeys, users, workspaceMembers, type SelectApiKey } from "@db/schema";
+import { hashToken, requireAuth } from "./auth";
+import { hasPermission, workspaceAccess, type WorkspaceRole } from "./workspaces";
+
+// Types
+// The key a public API request authenticated with, attached to req.apiKey
+export interface ApiKeyContext {
+  id: number;
+  name: string;
+  workspaceId: number;
+  createdBy: number;
+  rateLimitPerMinute: number;
+}
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyContext;
+      managedApiKey?: SelectApiKey;
+    }
+  }
+}
+
+// Constants
+const KEY_PREFIX = "aimd_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+const RATE_WINDOW = 60 * 1000; // 1 minute
+export const DEFAULT_RATE_LIMIT = Number(process.env.API_KEY_RATE_LIMIT) || 60; // Requests per minute
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).default(DEFAULT_RATE_LIMIT)
+});
+
+// Fixed one-minute windows per key. Kept in memory, so limits are per server process.
+const rateWindows = new Map<number, RateWindow>();
+
+// Only the hash is stored; the full key is shown once, when it is created
+function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashToken(key) };
+}
+
+// Unlike the key itself, the webhook signing secret is stored as is: receivers need it to verify signatures
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+function readApiKey(req: Request) {
+  const header = req.get("authorization");
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return req.get("x-api-key")?.trim();
+}
+
+// Authenticates public API requests by key, applies the key's rate limit and counts the request.
+// A key only works while its creator can still submit analyses in the key's workspace.
+export async function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
+  const key = readApiKey(req);
+  if (!key) {
+    return res.status(401).json({ error: "Missing API key" });
+  }
+
+  let context: ApiKeyContext | undefined;
+  try {
+    const [row] = await db
+      .select({
+        id: apiKeys.id,
+        name: apiKeys.name,
+        workspaceId: apiKeys.workspaceId,
+        createdBy: apiKeys.createdBy,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+        role: workspaceMembers.role
+      })
+      .from(apiKeys)
+      .leftJoin(workspaceMembers, and(
+        eq(workspaceMembers.workspaceId, apiKeys.workspaceId),
+        eq(workspaceMembers.userId, apiKeys.createdBy)
+      ))
+      .where(and(eq(apiKeys.keyHash, hashToken(key)), isNull(apiKeys.revokedAt)));
+
+    if (row && row.role && hasPermission(row.role as WorkspaceRole, "analyze")) {
+      const { role: _role, ...rest } = row;
+      context = rest;
+    }
+  } catch (error: any) {
+    console.error('API key lookup error:', { error: error.message });
+    return res.status(500).json({ error: 'Could not check API key' });
+  }
+
+  if (!context) {
+    return res.status(401).json({ error: "Invalid or revoked API key" });
+  }
+
+  const now = Date.now();
+  let window = rateWindows.get(context.id);
+  if (!window || now - window.startedAt >= RATE_WINDOW) {
+    window = { startedAt: now, count: 0 };
+    rateWindows.set(context.id, window);
+  }
+  window.count++;
+
+  const resetAt = window.startedAt + RATE_WINDOW;
+  res.set({
+    "X-RateLimit-Limit": String(context.rateLimitPerMinute),
+    "X-RateLimit-Remaining": String(Math.max(0, context.rateLimitPerMinute - window.count)),
+    "X-RateLimit-Reset": String(Math.ceil(resetAt / 1000))
+  });
+  if (window.count > context.rateLimitPerMinute) {
+    res.set("Retry-After", String(Math.ceil((resetAt - now) / 1000)));
+    return res.status(429).json({ error: "Rate limit exceeded" });
+  }
+
+  recordApiKeyUsage(context.id, { requests: 1 });
+  req.apiKey = context;
+  next();
+}
+
+// Usage counters are bookkeeping: failing to update them must never fail the request
+export async function recordApiKeyUsage(id: number, usage: { requests?: number; analyses?: number }) {
+  try {
+    await db.update(apiKeys)
+      .set({
+        requestCount: sql`${apiKeys.requestCount} + ${usage.requests ?? 0}`,
+        analysisCount: sql`${apiKeys.analysisCount} + ${usage.analyses ?? 0}`,
+        lastUsedAt: new Date()
+      })
+      .where(eq(apiKeys.id, id));
+  } catch (error: any) {
+    console.error('API key usage update error:', { apiKeyId: id, error: error.message });
+  }
+}
+
+// For /api/api-keys/:id routes: loads the key into req.managedApiKey if it belongs to the active
+// workspace and the caller may manage it, which is its creator or a workspace owner
+export async function managedKeyAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const [key] = await db.select().from(apiKeys)
+      .where(and(eq(apiKeys.id, Number(req.params.id)), eq(apiKeys.workspaceId, req.workspace!.id)));
+    if (!key) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+    if (key.createdBy !== req.user!.id && !hasPermission(req.workspace!.role, "manage")) {
+      return res.status(403).json({ error: "Only the key's creator or a workspace owner can manage it" });
+    }
+    req.managedApiKey = key;
+    next();
+  } catch (error: any) {
+    console.error('API key lookup error:', { error: error.message });
+    res.status(500).json({ error: 'Could not load API key' });
+  }
+}
+
+// Key management for the settings page. Keys belong to the active workspace and act with
+// their creator's permissions, so only members who can submit analyses may manage them.
+export function setupApiKeys(app: Express) {
+  app.get("/api/api-keys", requireAuth, workspaceAccess("analyze"), async (req, res) => {
+    try {
+      const keys = await db
+        .select({
+          id: apiKeys.id,
+          name: apiKeys.name,
+          prefix: apiKeys.prefix,
+          createdBy: users.email,
+          rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+          webhookUrl: apiKeys.webhookUrl,
+          requestCount: apiKeys.requestCount,
+          analysisCount: apiKeys.analysisCount,
+          lastUsedAt: apiKeys.lastUsedAt,
+          revokedAt: apiKeys.revokedAt,
+          createdAt: apiKeys.createdAt
+        })
+        .from(apiKeys)
+        .innerJoin(users, eq(users.id, apiKeys.createdBy))
+        .where(eq(apiKeys.workspaceId, req.workspace!.id))
+        .orderBy(desc(apiKeys.createdAt));
+      res.json(keys);
+    } catch (error: any) {
+      console.error('API key list error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load API keys' });
+    }
+  });
+
+  app.post("/api/api-keys", requireAuth, workspaceAccess("analyze"), async (req, res) => {
+    const body = createApiKeySchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid API key",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const { key, prefix, keyHash } = generateApiKey();
+      const [created] = await db.insert(apiKeys).values({
+        workspaceId: req.workspace!.id,
+        createdBy: req.user!.id,
+        name: body.data.name,
+        prefix,
+        keyHash,
+        rateLimitPerMinute: body.data.rateLimitPerMinute,
+        webhookSecret: generateWebhookSecret()
+      }).returning();
+
+      res.status(201).json({
+        id: created.id,
+        name: created.name,
+        prefix: created.prefix,
+        rateLimitPerMinute: created.rateLimitPerMinute,
+        createdAt: created.createdAt,
+        key
+      });
+    } catch (error: any) {
+      console.error('API key creation error:', { error: error.message });
+      res.status(500).json({ error: 'Could not create API key' });
+    }
+  });
+
+  // Revoked keys are kept so their usage stays visible; owners can revoke anyone's key
+  app.delete("/api/api-keys/:id", requireAuth, workspaceAccess("analyze"), managedKeyAccess, async (req, res) => {
+    const key = req.managedApiKey!;
+    try {
+      if (!key.revokedAt) {
+        await db.update(apiKeys).set({ revokedAt: new Date() }).where(eq(apiKeys.id, key.id));
+        rateWindows.delete(key.id);
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('API key revoke error:', { error: error.message });
+      res.status(500).json({ error: 'Could not revoke API key' });
+    }
+  });
+}
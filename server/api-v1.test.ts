@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp, waitFor, wavFile } from "./test/helpers";
+
+let app: Express;
+let apiKey: string;
+
+// API keys belong to a workspace, so they are created by a registered user. Results are polled
+// often, so the key's rate limit is raised.
+beforeAll(async () => {
+  app = createTestApp();
+  const agent = request.agent(app);
+  const user = await agent.post("/api/register").send({ email: "api@example.com", password: "correct horse" });
+  expect(user.status).toBe(201);
+
+  const created = await agent.post("/api/api-keys").send({ name: "Tests", rateLimitPerMinute: 10000 });
+  expect(created.status).toBe(201);
+  apiKey = created.body.key;
+});
+
+// Submits a file and waits until its result is no longer "still running"
+async function analyze(fileName: string) {
+  const submitted = await request(app)
+    .post("/api/v1/analyses")
+    .set("X-API-Key", apiKey)
+    .attach("audio", wavFile(), fileName);
+  expect(submitted.status).toBe(202);
+  expect(submitted.body.analyses).toHaveLength(1);
+
+  const { id } = submitted.body.analyses[0];
+  const result = await waitFor(async () => {
+    const response = await request(app).get(`/api/v1/analyses/${id}/result`).set("X-API-Key", apiKey);
+    return response.status === 409 ? undefined : response;
+  });
+  return { id, result };
+}
+
+describe("POST /api/v1/analyses", () => {
+  it("reports an AI verdict", async () => {
+    const { id, result } = await analyze("api [mock:ai].wav");
+
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({ id, fileName: "api [mock:ai].wav", isAi: true });
+  });
+
+  it("reports a human verdict", async () => {
+    const { result } = await analyze("api [mock:human].wav");
+
+    expect(result.status).toBe(200);
+    expect(result.body.isAi).toBe(false);
+    expect(result.body.confidence).toBeGreaterThanOrEqual(50);
+  });
+
+  it("reports a failed analysis when the detector reports an error", async () => {
+    const { result } = await analyze("api [mock:error].wav");
+
+    expect(result.status).toBe(422);
+    expect(result.body.status).toBe("failed");
+  });
+
+  it("reports a failed analysis when the detector never finishes", async () => {
+    const { result } = await analyze("api [mock:timeout].wav");
+
+    expect(result.status).toBe(422);
+    expect(result.body).toMatchObject({ status: "failed", error: expect.stringMatching(/did not finish/) });
+  });
+
+  it("lists the workspace's analyses with their verdicts", async () => {
+    const { id } = await analyze("listed [mock:ai].wav");
+
+    const response = await request(app).get("/api/v1/analyses").set("X-API-Key", apiKey);
+    expect(response.status).toBe(200);
+    expect(response.body.items).toContainEqual(expect.objectContaining({
+      id,
+      status: "done",
+      result: expect.objectContaining({ isAi: true })
+    }));
+  });
+
+  it("rejects requests without a valid key", async () => {
+    const response = await request(app)
+      .post("/api/v1/analyses")
+      .set("X-API-Key", "not-a-key")
+      .attach("audio", wavFile(), "api [mock:ai].wav");
+
+    expect(response.status).toBe(401);
+  });
+});
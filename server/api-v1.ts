@@ -0,0 +1,219 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import type { AudioSegment, SelectUpload, StemVerdicts, SubmittedAudio } from "@db/schema";
+import {
+  analysisOptionsSchema,
+  analyzeUrlSchema,
+  audioUpload,
+  checkAnalysisModes,
+  httpUrlSchema,
+  MAX_BATCH_FILES,
+  startJob,
+  startUrlJob,
+  uploadSlot
+} from "./analysis";
+import { analysesQuerySchema, getUpload, listUploads, type UploadRecord } from "./uploads";
+import { enforceQuota, identityOf } from "./quotas";
+import { apiKeyAuth, recordApiKeyUsage } from "./api-keys";
+import { ensureWebhookSecret } from "./webhooks";
+import { assertPublicUrl } from "./outbound";
+import { BlockedAddressError, InvalidAudioError, QuotaExceededError } from "./errors";
+import type { Job } from "./jobs";
+
+// Versioned public API for machine clients. Requests authenticate with an API key
+// (`Authorization: Bearer <key>` or `X-API-Key`) instead of a session, and every
+// analysis is an upload record of the key's workspace, so results outlive the job.
+
+// Types
+export interface V1Analysis {
+  id: number;
+  fileName: string;
+  sourceUrl: string | null;
+  status: string;
+  // Known once the file has been inspected, which for URL analyses is after the download
+  audio: { duration: number; sampleRate: number; channels: number; bitrate: number } | null;
+  // What the detector was sent, once it has been: the file itself or a transcoded copy
+  submitted: SubmittedAudio | null;
+  // cachedFrom names the earlier analysis of the same audio whose verdict was reused, if any;
+  // segments holds the verdict of every window of a segmented analysis, and stems the verdict of
+  // every stem of a stem analysis
+  result: {
+    isAi: boolean;
+    confidence: number;
+    cachedFrom: { id: number; analyzedAt: Date } | null;
+    segments: AudioSegment[] | null;
+    stems: StemVerdicts | null;
+  } | null;
+  // An earlier analysis of what appears to be the same recording, with how similar it is from 0 to 1
+  similarTo: { id: number; similarity: number } | null;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+// Constants
+const FINISHED_STATUSES = ["done", "failed", "cancelled"];
+
+// Sent as multipart fields or in the JSON body, next to the files or url
+const optionsSchema = analysisOptionsSchema.extend({
+  callbackUrl: httpUrlSchema.optional()
+}).superRefine(checkAnalysisModes);
+
+function toV1Analysis(upload: UploadRecord | SelectUpload): V1Analysis {
+  return {
+    id: upload.id,
+    fileName: upload.fileName,
+    sourceUrl: upload.sourceUrl,
+    status: upload.status,
+    audio: upload.duration !== null
+      ? { duration: upload.duration, sampleRate: upload.sampleRate!, channels: upload.channels!, bitrate: upload.bitrate! }
+      : null,
+    submitted: upload.submittedAudio,
+    result: upload.status === "done" && upload.isAi !== null
+      ? {
+        isAi: upload.isAi,
+        confidence: Number(upload.confidenceScore),
+        cachedFrom: upload.cachedFromId !== null && upload.cachedAnalyzedAt !== null
+          ? { id: upload.cachedFromId, analyzedAt: upload.cachedAnalyzedAt }
+          : null,
+        segments: upload.segments,
+        stems: upload.stems
+      }
+      : null,
+    similarTo: upload.similarToId !== null && upload.similarity !== null
+      ? { id: upload.similarToId, similarity: upload.similarity }
+      : null,
+    error: upload.errorReason,
+    createdAt: upload.createdAt,
+    completedAt: upload.completedAt
+  };
+}
+
+// Multipart requests carry files in the "audio" field; anything else is read as a JSON { url } body
+function acceptAudio(req: Request, res: Response, next: NextFunction) {
+  if (req.is("multipart/form-data")) {
+    return uploadSlot(req, res, () => audioUpload.array("audio", MAX_BATCH_FILES)(req, res, next));
+  }
+  next();
+}
+
+async function findAnalysis(req: Request) {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) ? getUpload(id, req.apiKey!.workspaceId) : undefined;
+}
+
+// Must be registered before the session middleware: API clients get no session cookie
+export function setupApiV1(app: Express) {
+  app.post(
+    "/api/v1/analyses",
+    apiKeyAuth,
+    enforceQuota(() => 1),
+    acceptAudio,
+    enforceQuota((req) => (req.files as Express.Multer.File[] | undefined)?.length || 1),
+    async (req, res) => {
+      const files = req.files as Express.Multer.File[] | undefined;
+      const options = optionsSchema.safeParse(req.body ?? {});
+      if (!options.success) {
+        return res.status(400).json({
+          error: "Invalid analysis options",
+          details: options.error.flatten().fieldErrors
+        });
+      }
+
+      const { callbackUrl } = options.data;
+      let job: Job;
+      try {
+        if (callbackUrl) {
+          await assertPublicUrl(callbackUrl);
+          await ensureWebhookSecret(req.apiKey!.id);
+        }
+        if (files && files.length > 0) {
+          job = await startJob(identityOf(req), files, options.data);
+        } else {
+          const body = analyzeUrlSchema.safeParse(req.body);
+          if (!body.success) {
+            return res.status(400).json({
+              error: "Send audio files as multipart \"audio\" fields, or a JSON body with a url",
+              details: body.error.flatten().fieldErrors
+            });
+          }
+          job = await startUrlJob(identityOf(req), body.data.url, options.data);
+        }
+      } catch (error: any) {
+        if (error instanceof InvalidAudioError || error instanceof BlockedAddressError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof QuotaExceededError) {
+          return res.status(429).json({ error: error.message, quota: error.quota });
+        }
+        console.error('API submit error:', { apiKeyId: req.apiKey!.id, error: error.message });
+        return res.status(500).json({ error: 'Could not record upload' });
+      }
+
+      recordApiKeyUsage(req.apiKey!.id, { analyses: job.tracks.length });
+      res.status(202).json({
+        jobId: job.id,
+        analyses: job.tracks.map((track) => ({
+          id: track.uploadId,
+          fileName: track.fileName,
+          status: job.stage
+        }))
+      });
+    }
+  );
+
+  app.get("/api/v1/analyses", apiKeyAuth, async (req, res) => {
+    const query = analysesQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        error: "Invalid query parameters",
+        details: query.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const page = await listUploads({ ...query.data, workspaceId: req.apiKey!.workspaceId });
+      res.json({ ...page, items: page.items.map(toV1Analysis) });
+    } catch (error: any) {
+      console.error('API list error:', { apiKeyId: req.apiKey!.id, error: error.message });
+      res.status(500).json({ error: 'Could not load analyses' });
+    }
+  });
+
+  app.get("/api/v1/analyses/:id", apiKeyAuth, async (req, res) => {
+    try {
+      const analysis = await findAnalysis(req);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+      res.json(toV1Analysis(analysis));
+    } catch (error: any) {
+      console.error('API status error:', { apiKeyId: req.apiKey!.id, error: error.message });
+      res.status(500).json({ error: 'Could not load analysis' });
+    }
+  });
+
+  // 200 with the verdict once done, 409 while still running, 422 when it failed or was cancelled
+  app.get("/api/v1/analyses/:id/result", apiKeyAuth, async (req, res) => {
+    try {
+      const analysis = await findAnalysis(req);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+      if (!FINISHED_STATUSES.includes(analysis.status)) {
+        return res.status(409).json({ error: `Analysis is still ${analysis.status}`, status: analysis.status });
+      }
+
+      const { result, ...rest } = toV1Analysis(analysis);
+      if (!result) {
+        return res.status(422).json({
+          error: analysis.errorReason || `Analysis ${analysis.status}`,
+          status: analysis.status
+        });
+      }
+      res.json({ id: rest.id, fileName: rest.fileName, ...result, completedAt: rest.completedAt });
+    } catch (error: any) {
+      console.error('API result error:', { apiKeyId: req.apiKey!.id, error: error.message });
+      res.status(500).json({ error: 'Could not load analysis' });
+    }
+  });
+}
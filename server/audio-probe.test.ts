@@ -0,0 +1,171 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { probeAudio } from "./audio-probe";
+import { InvalidAudioError } from "./errors";
+import { wavFile } from "./test/helpers";
+
+let directory: string;
+let fileCount = 0;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "audio-probe-test-"));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function probe(contents: Buffer) {
+  const filePath = path.join(directory, String(fileCount++));
+  await writeFile(filePath, contents);
+  return probeAudio(filePath);
+}
+
+function uint32(value: number) {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+// An MP4 box: its size, its type and its content
+function box(type: string, ...content: Buffer[]) {
+  const body = Buffer.concat(content);
+  return Buffer.concat([uint32(8 + body.length), Buffer.from(type, "latin1"), body]);
+}
+
+// An M4A file with a single AAC sound track, whose boxes can be swapped for damaged ones
+function m4aFile(parts: { mdhd?: Buffer; stsd?: Buffer } = {}) {
+  const mdhd = parts.mdhd ?? box("mdhd",
+    Buffer.alloc(4), // version 0, no flags
+    uint32(0), uint32(0), // creation and modification times
+    uint32(44100), // timescale
+    uint32(441000), // duration: 10 seconds
+    Buffer.alloc(4)
+  );
+  const entry = Buffer.alloc(36);
+  entry.writeUInt32BE(36, 0);
+  entry.write("mp4a", 4, "latin1");
+  entry.writeUInt16BE(2, 24); // channels
+  entry.writeUInt16BE(16, 26); // sample size
+  entry.writeUInt32BE(44100 * 65536, 32); // 16.16 fixed point
+  const stsd = parts.stsd ?? box("stsd", Buffer.alloc(4), uint32(1), entry);
+  const hdlr = box("hdlr", Buffer.alloc(8), Buffer.from("soun", "latin1"), Buffer.alloc(12));
+
+  return Buffer.concat([
+    box("ftyp", Buffer.from("M4A ", "latin1"), uint32(0), Buffer.from("M4A ", "latin1")),
+    box("moov", box("trak", box("mdia", hdlr, mdhd, box("minf", box("stbl", stsd))))),
+    box("mdat", Buffer.alloc(1000))
+  ]);
+}
+
+// Constant bitrate MPEG-1 layer III frames at 128kbps and 44.1kHz, 417 bytes each. A first frame
+// carrying a Xing header gives the frame count of the whole stream.
+function mp3File(frames: number, xingFrames?: number) {
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  const stream = Array.from({ length: frames }, () => Buffer.from(frame));
+  if (xingFrames !== undefined) {
+    stream[0].write("Xing", 36, "latin1");
+    stream[0].writeUInt32BE(0x01, 40);
+    stream[0].writeUInt32BE(xingFrames, 44);
+  }
+  return Buffer.concat(stream);
+}
+
+// A FLAC stream marker and STREAMINFO block for 10 seconds of 16-bit stereo at 44.1kHz
+function flacFile() {
+  const info = Buffer.alloc(34);
+  const sampleRate = 44100;
+  info[10] = sampleRate >> 12;
+  info[11] = (sampleRate >> 4) & 0xff;
+  info[12] = ((sampleRate & 0x0f) << 4) | ((2 - 1) << 1) | ((16 - 1) >> 4);
+  info[13] = ((16 - 1) & 0x0f) << 4;
+  info.writeUInt32BE(441000, 14);
+  return Buffer.concat([Buffer.from("fLaC", "latin1"), Buffer.from([0x80, 0, 0, 34]), info, Buffer.alloc(100)]);
+}
+
+describe("probeAudio", () => {
+  it("reads a WAV file", async () => {
+    await expect(probe(wavFile(2))).resolves.toMatchObject({
+      format: "wav",
+      duration: 2,
+      sampleRate: 8000,
+      channels: 1,
+      bitrate: 128000
+    });
+  });
+
+  it("times a WAV file by the audio it holds when its data size is too large", async () => {
+    const file = wavFile(2);
+    file.writeUInt32LE(0xffffffff, 40);
+
+    await expect(probe(file.subarray(0, 44 + 8000))).resolves.toMatchObject({ duration: 0.5 });
+  });
+
+  it("rejects a WAV file without audio data", async () => {
+    await expect(probe(wavFile(2).subarray(0, 36))).rejects.toThrow("WAV file has no format or audio data");
+  });
+
+  it("reads an M4A file", async () => {
+    await expect(probe(m4aFile())).resolves.toMatchObject({
+      format: "m4a",
+      duration: 10,
+      sampleRate: 44100,
+      channels: 2
+    });
+  });
+
+  it("rejects an MP4 file whose boxes run past the end of the file", async () => {
+    const file = m4aFile();
+
+    await expect(probe(file.subarray(0, file.length - 500))).rejects.toThrow("MP4 file is truncated");
+  });
+
+  it("rejects an MP4 media header too short for its fields", async () => {
+    const mdhd = box("mdhd", Buffer.alloc(4), uint32(0), uint32(0));
+
+    await expect(probe(m4aFile({ mdhd }))).rejects.toThrow("MP4 media header is truncated");
+  });
+
+  it("rejects an MP4 sample description too short for its first entry", async () => {
+    const stsd = box("stsd", Buffer.alloc(4), uint32(1), Buffer.alloc(20));
+
+    await expect(probe(m4aFile({ stsd }))).rejects.toThrow("MP4 sample description is truncated");
+  });
+
+  it("times a constant bitrate MP3 file by its size", async () => {
+    const metadata = await probe(mp3File(100));
+
+    expect(metadata).toMatchObject({ format: "mp3", sampleRate: 44100, channels: 2, bitrate: 128000 });
+    expect(metadata.duration).toBeCloseTo((100 * 417 * 8) / 128000);
+  });
+
+  it("times a variable bitrate MP3 file by the frame count of its Xing header", async () => {
+    const metadata = await probe(mp3File(100, 1000));
+
+    expect(metadata.duration).toBeCloseTo((1000 * 1152) / 44100);
+  });
+
+  it("reads a FLAC file", async () => {
+    await expect(probe(flacFile())).resolves.toMatchObject({
+      format: "flac",
+      duration: 10,
+      sampleRate: 44100,
+      channels: 2
+    });
+  });
+
+  it("rejects a FLAC file cut off in its stream info", async () => {
+    await expect(probe(flacFile().subarray(0, 20))).rejects.toThrow("FLAC file has no stream info");
+  });
+
+  it("rejects a file that is not audio", async () => {
+    await expect(probe(Buffer.from("just some text, not audio at all"))).rejects.toThrow(InvalidAudioError);
+  });
+
+  it("rejects a file too short to be audio", async () => {
+    await expect(probe(Buffer.from("RIFF"))).rejects.toThrow("File is too short to be audio");
+  });
+});
@@ -0,0 +1,474 @@
+import { open, type FileHandle } from "fs/promises";
+import { audioFormatById, supportedFormatLabels, type AudioFormatId } from "@shared/audio-formats";
+import { InvalidAudioError } from "./errors";
+
+// Reads just enough of an audio file to tell what it really contains, whatever type it was sent
+// as, and how long it plays. Anything that does not parse as one of the accepted formats (see
+// shared/audio-formats.ts) is rejected, so renamed and truncated files never reach IRCAM.
+
+// Types
+export interface AudioMetadata {
+  format: AudioFormatId;
+  mimeType: string;
+  duration: number; // seconds
+  sampleRate: number; // Hz
+  channels: number;
+  bitrate: number; // bits per second, averaged over the file
+}
+
+// An MP4 box: where its content starts and ends in the file
+interface Mp4Atom {
+  type: string;
+  start: number;
+  end: number;
+}
+
+interface MpegFrame {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  frameLength: number;
+  samplesPerFrame: number;
+}
+
+// Constants
+const HEAD_SIZE = 64 * 1024;
+const TAIL_SIZE = 64 * 1024;
+const ID3V1_SIZE = 128;
+const FLAC_STREAMINFO_SIZE = 34;
+// Sample entries of an MP4 sound track that hold AAC or Apple Lossless audio
+const MP4_AUDIO_CODECS = ["mp4a", "alac"];
+
+// Bitrates in kbps by bitrate index, for MPEG-1 layers I-III and MPEG-2/2.5 layers I and II/III
+const MPEG1_BITRATES: Record<number, number[]> = {
+  1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+};
+const MPEG2_BITRATES: Record<number, number[]> = {
+  1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const MPEG_SAMPLE_RATES: Record<MpegFrame["version"], number[]> = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  2.5: [11025, 12000, 8000]
+};
+
+export async function probeAudio(filePath: string): Promise<AudioMetadata> {
+  const file = await open(filePath, "r");
+  try {
+    const { size } = await file.stat();
+    const head = await readAt(file, 0, Math.min(HEAD_SIZE, size));
+    if (head.length < 12) {
+      throw new InvalidAudioError("File is too short to be audio");
+    }
+
+    // MP3 and FLAC files may start with an ID3v2 tag
+    const tagEnd = id3v2End(head);
+    const magic = tagEnd === 0 ? head.toString("latin1", 0, 4) : (await readAt(file, tagEnd, 4)).toString("latin1");
+
+    let metadata: AudioMetadata;
+    if (head.toString("latin1", 0, 4) === "RIFF" && head.toString("latin1", 8, 12) === "WAVE") {
+      metadata = await probeWav(file, size);
+    } else if (head.toString("latin1", 0, 4) === "FORM" && /^AIF[FC]$/.test(head.toString("latin1", 8, 12))) {
+      metadata = await probeAiff(file, size);
+    } else if (head.toString("latin1", 0, 4) === "OggS") {
+      metadata = await probeOgg(file, head, size);
+    } else if (head.toString("latin1", 4, 8) === "ftyp") {
+      metadata = await probeMp4(file, size);
+    } else if (magic === "fLaC") {
+      metadata = await probeFlac(file, tagEnd, size);
+    } else {
+      metadata = await probeMp3(file, head, tagEnd, size);
+    }
+
+    if (!Number.isFinite(metadata.duration) || metadata.duration <= 0) {
+      throw new InvalidAudioError("Could not determine how long the audio plays");
+    }
+    return metadata;
+  } catch (error) {
+    // A read past the end of a buffer that the checks above missed still means a damaged file
+    if (error instanceof RangeError) {
+      throw new InvalidAudioError("File is damaged or truncated");
+    }
+    throw error;
+  } finally {
+    await file.close();
+  }
+}
+
+async function readAt(file: FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(Math.max(0, length));
+  const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// For fixed-size structures: a file, box or chunk that ends (at `end`) before `length` bytes is
+// damaged, rather than a reason to read past it
+async function readExactly(file: FileHandle, position: number, length: number, end: number, what: string) {
+  const buffer = position + length <= end ? await readAt(file, position, length) : Buffer.alloc(0);
+  if (buffer.length < length) {
+    throw new InvalidAudioError(`${what} is truncated`);
+  }
+  return buffer;
+}
+
+function id3v2End(head: Buffer) {
+  if (head.toString("latin1", 0, 3) !== "ID3" || head.length < 10) {
+    return 0;
+  }
+  const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+  return 10 + tagSize + (head[5] & 0x10 ? 10 : 0);
+}
+
+// Walks the RIFF chunks header by header, so large metadata chunks before the audio are skipped
+async function probeWav(file: FileHandle, size: number): Promise<AudioMetadata> {
+  let offset = 12;
+  let format: Buffer | undefined;
+  let dataSize: number | undefined;
+
+  while (offset + 8 <= size && (!format || dataSize === undefined)) {
+    const header = await readExactly(file, offset, 8, size, "WAV file");
+    const chunkId = header.toString("latin1", 0, 4);
+    const chunkSize = header.readUInt32LE(4);
+    if (chunkId === "fmt ") {
+      format = await readAt(file, offset + 8, Math.min(chunkSize, 40));
+    } else if (chunkId === "data") {
+      // Recorders that stream WAV often leave the data size unset or too large
+      dataSize = Math.min(chunkSize, size - offset - 8);
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format || format.length < 16 || dataSize === undefined) {
+    throw new InvalidAudioError("WAV file has no format or audio data");
+  }
+
+  const channels = format.readUInt16LE(2);
+  const sampleRate = format.readUInt32LE(4);
+  const byteRate = format.readUInt32LE(8);
+  if (!channels || !sampleRate || !byteRate) {
+    throw new InvalidAudioError("WAV file has an invalid format header");
+  }
+
+  return {
+    format: "wav",
+    mimeType: audioFormatById("wav").mimeType,
+    duration: dataSize / byteRate,
+    sampleRate,
+    channels,
+    bitrate: byteRate * 8
+  };
+}
+
+// The first page carries the codec's identification header, and the granule position of the
+// stream's last page is its length in samples
+async function probeOgg(file: FileHandle, head: Buffer, size: number): Promise<AudioMetadata> {
+  if (head.length < 27 || head.length < 27 + head[26]) {
+    throw new InvalidAudioError("Ogg file is truncated");
+  }
+  const serial = head.readUInt32LE(14);
+  const packet = head.subarray(27 + head[26]);
+
+  let format: AudioFormatId;
+  let channels: number;
+  let sampleRate: number;
+  let granuleRate: number;
+  let preSkip = 0;
+  if (packet.length >= 16 && packet.toString("latin1", 0, 7) === "\x01vorbis") {
+    format = "ogg";
+    channels = packet[11];
+    sampleRate = packet.readUInt32LE(12);
+    granuleRate = sampleRate;
+  } else if (packet.length >= 16 && packet.toString("latin1", 0, 8) === "OpusHead") {
+    // Opus always runs at 48kHz; the header only records the rate of the original input
+    format = "opus";
+    channels = packet[9];
+    preSkip = packet.readUInt16LE(10);
+    sampleRate = packet.readUInt32LE(12) || 48000;
+    granuleRate = 48000;
+  } else {
+    throw new InvalidAudioError("Ogg file does not contain Vorbis or Opus audio");
+  }
+  if (!channels || !granuleRate) {
+    throw new InvalidAudioError("Ogg file has an invalid codec header");
+  }
+
+  const tailStart = Math.max(0, size - TAIL_SIZE);
+  const tail = await readAt(file, tailStart, size - tailStart);
+  let granule: bigint | undefined;
+  let index = tail.lastIndexOf("OggS");
+  while (index >= 0 && granule === undefined) {
+    if (index + 27 <= tail.length && tail.readUInt32LE(index + 14) === serial) {
+      granule = tail.readBigUInt64LE(index + 6);
+    }
+    index = index > 0 ? tail.lastIndexOf("OggS", index - 1) : -1;
+  }
+  if (granule === undefined || granule === BigInt("0xffffffffffffffff")) {
+    throw new InvalidAudioError("Ogg file is truncated");
+  }
+
+  const duration = (Number(granule) - preSkip) / granuleRate;
+  return {
+    format,
+    mimeType: audioFormatById(format).mimeType,
+    duration,
+    sampleRate,
+    channels,
+    bitrate: Math.round((size * 8) / duration)
+  };
+}
+
+// AIFF is RIFF's big-endian sibling: the COMM chunk holds the frame count, and the sample rate
+// as an 80-bit extended float. AIFF-C adds a compression type, which does not change the layout.
+async function probeAiff(file: FileHandle, size: number): Promise<AudioMetadata> {
+  let offset = 12;
+  let common: Buffer | undefined;
+
+  while (offset + 8 <= size && !common) {
+    const header = await readExactly(file, offset, 8, size, "AIFF file");
+    const chunkId = header.toString("latin1", 0, 4);
+    const chunkSize = header.readUInt32BE(4);
+    if (chunkId === "COMM") {
+      common = await readAt(file, offset + 8, Math.min(chunkSize, 18));
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (!common || common.length < 18) {
+    throw new InvalidAudioError("AIFF file has no common chunk");
+  }
+
+  const channels = common.readUInt16BE(0);
+  const frameCount = common.readUInt32BE(2);
+  const exponent = common.readUInt16BE(8) & 0x7fff;
+  const mantissa = common.readUInt32BE(10) * 2 ** 32 + common.readUInt32BE(14);
+  const sampleRate = Math.round(mantissa * 2 ** (exponent - 16383 - 63));
+  if (!channels || !sampleRate) {
+    throw new InvalidAudioError("AIFF file has an invalid common chunk");
+  }
+
+  const duration = frameCount / sampleRate;
+  return {
+    format: "aiff",
+    mimeType: audioFormatById("aiff").mimeType,
+    duration,
+    sampleRate,
+    channels,
+    bitrate: Math.round((size * 8) / duration)
+  };
+}
+
+// The STREAMINFO block that must follow the "fLaC" marker packs the sample rate, channel count
+// and total sample count into bit fields
+async function probeFlac(file: FileHandle, start: number, size: number): Promise<AudioMetadata> {
+  const block = await readAt(file, start + 4, 4 + FLAC_STREAMINFO_SIZE);
+  if (block.length < 4 + FLAC_STREAMINFO_SIZE || (block[0] & 0x7f) !== 0) {
+    throw new InvalidAudioError("FLAC file has no stream info");
+  }
+
+  const info = block.subarray(4);
+  const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+  const channels = ((info[12] >> 1) & 0x07) + 1;
+  // 36 bits, more than bitwise operators handle
+  const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+  if (!sampleRate) {
+    throw new InvalidAudioError("FLAC file has an invalid stream info");
+  }
+
+  const duration = totalSamples / sampleRate;
+  return {
+    format: "flac",
+    mimeType: audioFormatById("flac").mimeType,
+    duration,
+    sampleRate,
+    channels,
+    bitrate: Math.round((size * 8) / duration)
+  };
+}
+
+// Follows moov > trak > mdia to the first sound track: its mdhd box has the duration, and the
+// first entry of its stsd box the codec and channel count. Boxes are read one header at a time,
+// since the moov box may well come after the audio data.
+async function probeMp4(file: FileHandle, size: number): Promise<AudioMetadata> {
+  const moov = (await readAtoms(file, 0, size)).find((atom) => atom.type === "moov");
+  if (!moov) {
+    throw new InvalidAudioError("MP4 file has no movie header");
+  }
+
+  for (const trak of (await readAtoms(file, moov.start, moov.end)).filter((atom) => atom.type === "trak")) {
+    const mdia = (await readAtoms(file, trak.start, trak.end)).find((atom) => atom.type === "mdia");
+    if (!mdia) {
+      continue;
+    }
+    const mdiaAtoms = await readAtoms(file, mdia.start, mdia.end);
+    const hdlr = mdiaAtoms.find((atom) => atom.type === "hdlr");
+    const mdhd = mdiaAtoms.find((atom) => atom.type === "mdhd");
+    const minf = mdiaAtoms.find((atom) => atom.type === "minf");
+    if (!hdlr || !mdhd || !minf || (await readExactly(file, hdlr.start + 8, 4, hdlr.end, "MP4 handler box")).toString("latin1") !== "soun") {
+      continue;
+    }
+
+    const stbl = (await readAtoms(file, minf.start, minf.end)).find((atom) => atom.type === "stbl");
+    const stsd = stbl && (await readAtoms(file, stbl.start, stbl.end)).find((atom) => atom.type === "stsd");
+    if (!stsd) {
+      continue;
+    }
+    const entry = await readExactly(file, stsd.start + 8, 36, stsd.end, "MP4 sample description");
+    const codec = entry.toString("latin1", 4, 8);
+    if (!MP4_AUDIO_CODECS.includes(codec)) {
+      throw new InvalidAudioError("MP4 file does not contain AAC or ALAC audio");
+    }
+
+    // Version 1 headers widen the timestamps and duration to 64 bits
+    const version = (await readExactly(file, mdhd.start, 1, mdhd.end, "MP4 media header"))[0];
+    const header = await readExactly(file, mdhd.start, version === 1 ? 32 : 20, mdhd.end, "MP4 media header");
+    const timescale = header[0] === 1 ? header.readUInt32BE(20) : header.readUInt32BE(12);
+    const length = header[0] === 1 ? Number(header.readBigUInt64BE(24)) : header.readUInt32BE(16);
+    if (!timescale) {
+      throw new InvalidAudioError("MP4 file has an invalid media header");
+    }
+
+    // The sample entry stores the rate as 16.16 fixed point, too narrow for rates above 65535Hz
+    const duration = length / timescale;
+    return {
+      format: "m4a",
+      mimeType: audioFormatById("m4a").mimeType,
+      duration,
+      sampleRate: entry.readUInt32BE(32) >>> 16 || timescale,
+      channels: entry.readUInt16BE(24),
+      bitrate: Math.round((size * 8) / duration)
+    };
+  }
+
+  throw new InvalidAudioError("MP4 file has no audio track");
+}
+
+// The boxes directly inside [start, end). A size of 1 means a 64-bit size follows the type,
+// a size of 0 that the box runs to the end of its parent.
+async function readAtoms(file: FileHandle, start: number, end: number): Promise<Mp4Atom[]> {
+  const atoms: Mp4Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = await readAt(file, offset, Math.min(16, end - offset));
+    if (header.length < 8) {
+      throw new InvalidAudioError("MP4 file is truncated");
+    }
+    let atomSize = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (atomSize === 1 && header.length >= 16) {
+      atomSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (atomSize === 0) {
+      atomSize = end - offset;
+    }
+    if (atomSize < headerSize || offset + atomSize > end) {
+      throw new InvalidAudioError("MP4 file is truncated");
+    }
+    atoms.push({ type: header.toString("latin1", 4, 8), start: offset + headerSize, end: offset + atomSize });
+    offset += atomSize;
+  }
+  return atoms;
+}
+
+// Starts after any ID3v2 tag, finds the first MPEG audio frame, and takes the frame count from its
+// Xing/Info or VBRI header when there is one. Without one the file is constant bitrate.
+async function probeMp3(file: FileHandle, head: Buffer, tagEnd: number, size: number): Promise<AudioMetadata> {
+  // A frame sync can occur by chance, so a frame only counts when another one follows it
+  const window = tagEnd === 0 ? head : await readAt(file, tagEnd, HEAD_SIZE);
+  let frameOffset = -1;
+  let frame: MpegFrame | undefined;
+  for (let index = 0; index + 4 <= window.length; index++) {
+    const candidate = parseMpegFrame(window, index);
+    if (!candidate) {
+      continue;
+    }
+    const next = index + candidate.frameLength;
+    if (next + 4 <= window.length ? parseMpegFrame(window, next) : tagEnd + next >= size) {
+      frameOffset = index;
+      frame = candidate;
+      break;
+    }
+  }
+  if (!frame) {
+    throw new InvalidAudioError(`File is not in a supported audio format (${supportedFormatLabels()})`);
+  }
+
+  const audioStart = tagEnd + frameOffset;
+  const trailer = size >= ID3V1_SIZE ? await readAt(file, size - ID3V1_SIZE, 3) : Buffer.alloc(0);
+  const audioEnd = trailer.toString("latin1") === "TAG" ? size - ID3V1_SIZE : size;
+  const audioBytes = audioEnd - audioStart;
+
+  const frameCount = vbrFrameCount(window, frameOffset, frame);
+  const duration = frameCount
+    ? (frameCount * frame.samplesPerFrame) / frame.sampleRate
+    : (audioBytes * 8) / frame.bitrate;
+
+  return {
+    format: "mp3",
+    mimeType: audioFormatById("mp3").mimeType,
+    duration,
+    sampleRate: frame.sampleRate,
+    channels: frame.channels,
+    bitrate: frameCount ? Math.round((audioBytes * 8) / duration) : frame.bitrate
+  };
+}
+
+function parseMpegFrame(buffer: Buffer, offset: number): MpegFrame | undefined {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return undefined;
+  }
+
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+  const channelMode = buffer[offset + 3] >> 6;
+  // Reserved values, and free-format bitrates whose frame length cannot be known from the header
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return undefined;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as MpegFrame["layer"];
+  const bitrate = (version === 1 ? MPEG1_BITRATES : MPEG2_BITRATES)[layer][bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][sampleRateIndex];
+
+  let frameLength: number;
+  let samplesPerFrame: number;
+  if (layer === 1) {
+    frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    samplesPerFrame = 384;
+  } else if (layer === 2 || version === 1) {
+    frameLength = Math.floor((144 * bitrate) / sampleRate) + padding;
+    samplesPerFrame = 1152;
+  } else {
+    frameLength = Math.floor((72 * bitrate) / sampleRate) + padding;
+    samplesPerFrame = 576;
+  }
+
+  return { version, layer, bitrate, sampleRate, channels: channelMode === 3 ? 1 : 2, frameLength, samplesPerFrame };
+}
+
+// Encoders write the total frame count of VBR files in a Xing/Info or VBRI header in the first frame
+function vbrFrameCount(buffer: Buffer, offset: number, frame: MpegFrame): number | undefined {
+  const mono = frame.channels === 1;
+  const sideInfoSize = frame.version === 1 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+
+  const xing = offset + 4 + sideInfoSize;
+  const xingTag = buffer.toString("latin1", xing, xing + 4);
+  if ((xingTag === "Xing" || xingTag === "Info") && xing + 12 <= buffer.length && buffer.readUInt32BE(xing + 4) & 0x01) {
+    return buffer.readUInt32BE(xing + 8) || undefined;
+  }
+
+  const vbri = offset + 4 + 32;
+  if (buffer.toString("latin1", vbri, vbri + 4) === "VBRI" && vbri + 18 <= buffer.length) {
+    return buffer.readUInt32BE(vbri + 14) || undefined;
+  }
+  return undefined;
+}
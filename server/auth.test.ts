@@ -0,0 +1,27 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp } from "./test/helpers";
+
+let app: Express;
+
+beforeAll(() => {
+  app = createTestApp();
+});
+
+// Reset links can only be delivered through the server log, so outside development the feature
+// stays off unless PASSWORD_RESET_ENABLED turns it on
+describe("password reset", () => {
+  it("says it is unavailable instead of pretending to send a link", async () => {
+    await request(app).post("/api/register").send({ email: "forgetful@example.com", password: "correct horse" });
+
+    const response = await request(app).post("/api/forgot-password").send({ email: "forgetful@example.com" });
+    expect(response.status).toBe(501);
+    expect(response.body.error).toMatch(/not available/);
+  });
+
+  it("refuses reset tokens while it is off", async () => {
+    const response = await request(app).post("/api/reset-password").send({ token: "abc", password: "new password" });
+    expect(response.status).toBe(501);
+  });
+});
@@ -0,0 +1,260 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import type { Store } from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { users, type SelectUser } from "@db/schema";
+import { log } from "./vite";
+
+// The user attached to req.user by passport, without any credential fields
+type SessionUser = Pick<SelectUser, "id" | "email" | "createdAt">;
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+  }
+}
+
+// Constants
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const PASSWORD_KEY_LENGTH = 64;
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+// There is no mail delivery, so reset links can only reach users through the server log, where an
+// administrator passes them on. On by default in development only; see PASSWORD_RESET_ENABLED.
+const PASSWORD_RESET_ENABLED = process.env.PASSWORD_RESET_ENABLED
+  ? process.env.PASSWORD_RESET_ENABLED === "true" || process.env.PASSWORD_RESET_ENABLED === "1"
+  : process.env.NODE_ENV === "development";
+
+const credentialsSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, "Password must be at least 8 characters")
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().toLowerCase().email()
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters")
+});
+
+// Passwords are stored as "salt:hash" using scrypt
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// Reset and invitation tokens are only ever stored as a SHA-256 hash
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toSessionUser(user: SelectUser): SessionUser {
+  return { id: user.id, email: user.email, createdAt: user.createdAt };
+}
+
+// Base URL for links we hand out (password resets, invitations)
+export function appOrigin(req: Request) {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// Links carrying a token give access to whoever holds them, so they are written to the log in
+// development only; elsewhere the log just records that one was issued.
+export function logTokenLink(description: string, link: string, source: string) {
+  log(process.env.NODE_ENV === "development" ? `${description}: ${link}` : `${description} issued`, source);
+}
+
+// Logs a user out everywhere. Needs a store that can list its sessions, as the memory store can.
+function destroyUserSessions(store: Store, userId: number) {
+  return new Promise<void>((resolve, reject) => {
+    if (!store.all) {
+      return resolve();
+    }
+    store.all((error, sessions) => {
+      if (error) {
+        return reject(error);
+      }
+      const owned = Object.entries(sessions && !Array.isArray(sessions) ? sessions : {})
+        .filter(([, data]) => (data as { passport?: { user?: number } }).passport?.user === userId);
+      Promise.all(owned.map(([sid]) => new Promise<void>((done, fail) => {
+        store.destroy(sid, (destroyError) => (destroyError ? fail(destroyError) : done()));
+      }))).then(() => resolve(), reject);
+    });
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not logged in" });
+  }
+  next();
+}
+
+// Must be called after the session middleware is installed
+export function setupAuth(app: Express) {
+  passport.use(new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.email, email.trim().toLowerCase()));
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false, { message: "Invalid email or password" });
+      }
+      done(null, toSessionUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, id));
+      done(null, user ? toSessionUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  app.post("/api/register", async (req, res, next) => {
+    const body = credentialsSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid registration details",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.email, body.data.email));
+      if (existing) {
+        return res.status(409).json({ error: "An account with this email already exists" });
+      }
+
+      const [user] = await db.insert(users).values({
+        email: body.data.email,
+        passwordHash: await hashPassword(body.data.password)
+      }).returning();
+
+      req.login(toSessionUser(user), (error) => {
+        if (error) {
+          return next(error);
+        }
+        res.status(201).json(toSessionUser(user));
+      });
+    } catch (error: any) {
+      console.error('Registration error:', { error: error.message });
+      res.status(500).json({ error: 'Could not create account' });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: any, user: Express.User | false, info?: { message: string }) => {
+      if (error) {
+        return next(error);
+      }
+      if (!user) {
+        return res.status(401).json({ error: info?.message ?? "Invalid email or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) {
+          return next(loginError);
+        }
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) {
+        return next(error);
+      }
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+
+  // Always answers the same way, so it cannot be used to find out which emails have accounts.
+  // The reset link is written to the server log (see PASSWORD_RESET_ENABLED).
+  app.post("/api/forgot-password", async (req, res) => {
+    if (!PASSWORD_RESET_ENABLED) {
+      return res.status(501).json({ error: "Password reset is not available on this server. Ask an administrator for help." });
+    }
+    const body = forgotPasswordSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: "Invalid email address" });
+    }
+
+    try {
+      const [user] = await db.select().from(users).where(eq(users.email, body.data.email));
+      if (user) {
+        const token = randomBytes(32).toString("hex");
+        await db.update(users).set({
+          resetTokenHash: hashToken(token),
+          resetTokenExpiresAt: new Date(Date.now() + RESET_TOKEN_TTL)
+        }).where(eq(users.id, user.id));
+
+        log(`Password reset link for ${user.email}: ${appOrigin(req)}/reset-password?token=${token}`, "auth");
+      }
+      res.json({ message: "If an account exists for this email, a reset link has been sent" });
+    } catch (error: any) {
+      console.error('Password reset request error:', { error: error.message });
+      res.status(500).json({ error: 'Could not request password reset' });
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res) => {
+    if (!PASSWORD_RESET_ENABLED) {
+      return res.status(501).json({ error: "Password reset is not available on this server. Ask an administrator for help." });
+    }
+    const body = resetPasswordSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid reset request",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const [user] = await db.select().from(users)
+        .where(eq(users.resetTokenHash, hashToken(body.data.token)));
+      if (!user || !user.resetTokenExpiresAt || user.resetTokenExpiresAt < new Date()) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      }
+
+      await db.update(users).set({
+        passwordHash: await hashPassword(body.data.password),
+        resetTokenHash: null,
+        resetTokenExpiresAt: null
+      }).where(eq(users.id, user.id));
+      // Whoever was logged in with the old password is logged out
+      await destroyUserSessions(req.sessionStore, user.id);
+
+      res.json({ message: "Password updated" });
+    } catch (error: any) {
+      console.error('Password reset error:', { error: error.message });
+      res.status(500).json({ error: 'Could not reset password' });
+    }
+  });
+}
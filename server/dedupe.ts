@@ -0,0 +1,71 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { and, desc, eq, isNotNull } from "drizzle-orm";
+import { db } from "@db";
+import { uploads, type AudioSegment, type SelectAnalysisJob, type SelectUpload, type StemVerdicts } from "@db/schema";
+
+// Audio that was analyzed before is not sent to the detector again. Uploads are matched on the
+// SHA-256 of their content, among the analyses their owner can see: those of their workspace,
+// else their own, else those of their session.
+
+// Types
+export interface CachedVerdict {
+  uploadId: number;
+  analyzedAt: Date;
+  isAi: boolean;
+  confidenceScore: string;
+  segments: AudioSegment[] | null;
+  stems: StemVerdicts | null;
+}
+
+export function hashFile(path: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(path, { signal })
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+// The analyses the owner of `record` can see
+export function visibleAnalyses(record: SelectUpload) {
+  return record.workspaceId !== null
+    ? eq(uploads.workspaceId, record.workspaceId)
+    : record.userId !== null
+      ? eq(uploads.userId, record.userId)
+      : eq(uploads.sessionId, record.sessionId);
+}
+
+// The latest verdict for the same audio visible to the owner of `record`. A verdict that was
+// itself reused points back to the analysis that produced it. Segmented and stem jobs only accept
+// analyses that have verdicts for segments, or for stems.
+export async function findCachedVerdict(
+  record: SelectUpload,
+  contentHash: string,
+  { segmented, stems }: Pick<SelectAnalysisJob, "segmented" | "stems">
+): Promise<CachedVerdict | undefined> {
+  const [match] = await db.select().from(uploads)
+    .where(and(
+      eq(uploads.contentHash, contentHash),
+      eq(uploads.status, "done"),
+      isNotNull(uploads.isAi),
+      segmented ? isNotNull(uploads.segments) : undefined,
+      stems ? isNotNull(uploads.stems) : undefined,
+      visibleAnalyses(record)
+    ))
+    .orderBy(desc(uploads.completedAt))
+    .limit(1);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    uploadId: match.cachedFromId ?? match.id,
+    analyzedAt: match.cachedAnalyzedAt ?? match.completedAt ?? match.createdAt,
+    isAi: match.isAi!,
+    confidenceScore: match.confidenceScore!,
+    segments: match.segments,
+    stems: match.stems
+  };
+}
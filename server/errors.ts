@@ -0,0 +1,106 @@
+import type { QuotaStatus } from "./quotas";
+
+// Errors raised while talking to IRCAM Amplify or running an analysis job,
+// so callers can tell the failure modes apart
+
+// Base class for every failure coming from the IRCAM Amplify APIs
+export class IrcamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IrcamError";
+  }
+}
+
+// IRCAM could not be reached at all (DNS, connection reset, request timeout...)
+export class IrcamNetworkError extends IrcamError {
+  constructor(public readonly endpoint: string, cause: string) {
+    super(`Could not reach IRCAM Amplify (${endpoint}): ${cause}`);
+    this.name = "IrcamNetworkError";
+  }
+}
+
+// IRCAM answered with a non-2xx status
+export class IrcamHttpError extends IrcamError {
+  constructor(
+    public readonly endpoint: string,
+    public readonly status: number,
+    public readonly body?: unknown
+  ) {
+    super(`IRCAM Amplify request failed (${endpoint}): HTTP ${status}`);
+    this.name = "IrcamHttpError";
+  }
+}
+
+// The OAuth endpoint refused our credentials or returned no token
+export class IrcamAuthError extends IrcamError {
+  constructor(message: string) {
+    super(`Authentication failed: ${message}`);
+    this.name = "IrcamAuthError";
+  }
+}
+
+// The detector, or the stem separator, did not reach a final status within the configured maximum wait
+export class DetectionTimeoutError extends IrcamError {
+  constructor(public readonly ircamJobId: string, public readonly waitedMs: number, service = "Detector") {
+    super(`${service} did not finish within ${Math.round(waitedMs / 1000)}s`);
+    this.name = "DetectionTimeoutError";
+  }
+}
+
+// The detector, or the stem separator, reported the job as failed, or returned a result we cannot use
+export class DetectionFailedError extends IrcamError {
+  constructor(public readonly ircamJobId: string, message: string) {
+    super(message);
+    this.name = "DetectionFailedError";
+  }
+}
+
+// The job was cancelled by the user or because its client went away
+export class JobCancelledError extends Error {
+  constructor(reason = "Job was cancelled") {
+    super(reason);
+    this.name = "JobCancelledError";
+  }
+}
+
+// The job was still unfinished when its deadline passed, so it was given up on
+export class JobExpiredError extends Error {
+  constructor(deadlineMs: number) {
+    super(`Job did not finish within ${Math.round(deadlineMs / 60000)} minutes`);
+    this.name = "JobExpiredError";
+  }
+}
+
+// The file is not the audio it claims to be, is damaged, or is too short or too long to analyze
+export class InvalidAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAudioError";
+  }
+}
+
+// The audio would use more of an upload quota than is left; `quota` is what was left
+export class QuotaExceededError extends Error {
+  constructor(public readonly quota: QuotaStatus, minutes: number) {
+    super(quota.remainingMinutes !== null && minutes > quota.remainingMinutes
+      ? `Audio playing for ${minutes.toFixed(1)} minutes does not fit in the ${quota.remainingMinutes} minutes left of the upload quota`
+      : "Upload limit reached");
+    this.name = "QuotaExceededError";
+  }
+}
+
+// ffmpeg is missing, or failed to decode or encode a file
+export class FfmpegError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FfmpegError";
+  }
+}
+
+// A user-supplied URL points at, or resolves to, a loopback, private or otherwise reserved address
+export class BlockedAddressError extends Error {
+  constructor(hostname: string, address?: string) {
+    super(`${hostname}${address ? ` (${address})` : ""} is not a public address`);
+    this.name = "BlockedAddressError";
+  }
+}
@@ -0,0 +1,45 @@
+import { spawn } from "child_process";
+import { FfmpegError } from "./errors";
+
+// Runs the ffmpeg binary for transcoding, fingerprinting and segmented analysis. It is only
+// needed when one of those is in use, so its absence is reported per call rather than at startup.
+
+// Constants
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+// How much of ffmpeg's error output is kept for the error message
+const STDERR_LIMIT = 2000;
+
+// Resolves once ffmpeg exits successfully. Whatever it writes to stdout goes to `onData`;
+// aborting `signal` stops it.
+export function runFfmpeg(args: string[], signal: AbortSignal, onData?: (chunk: Buffer) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, ["-hide_banner", "-nostdin", "-loglevel", "error", ...args], {
+      signal,
+      stdio: ["ignore", onData ? "pipe" : "ignore", "pipe"]
+    });
+    let stderr = "";
+    ffmpeg.stdout?.on("data", (chunk: Buffer) => onData?.(chunk));
+    ffmpeg.stderr?.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_LIMIT);
+    });
+    ffmpeg.on("error", (error: any) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+      } else if (error.code === "ENOENT") {
+        reject(new FfmpegError(`ffmpeg was not found at ${FFMPEG_PATH}`));
+      } else {
+        reject(new FfmpegError(`Could not run ffmpeg: ${error.message}`));
+      }
+    });
+    ffmpeg.on("close", (code) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+      } else if (code === 0) {
+        resolve();
+      } else {
+        const lastLine = stderr.trim().split("\n").pop();
+        reject(new FfmpegError(`ffmpeg failed${lastLine ? `: ${lastLine}` : ` with exit code ${code}`}`));
+      }
+    });
+  });
+}
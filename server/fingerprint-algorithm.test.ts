@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareFingerprints,
+  decodeFingerprint,
+  encodeFingerprint,
+  fingerprintSamples,
+  SAMPLE_RATE
+} from "./fingerprint-algorithm";
+
+// A small seeded generator, so every run compares the same "audio"
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return state >>> 0;
+  };
+}
+
+function randomFingerprint(length: number, seed: number) {
+  const next = random(seed);
+  return Uint32Array.from({ length }, next);
+}
+
+function noise(seconds: number, seed: number) {
+  const next = random(seed);
+  return Float32Array.from({ length: seconds * SAMPLE_RATE }, () => next() / 2 ** 31 - 1);
+}
+
+describe("compareFingerprints", () => {
+  it("scores identical fingerprints 1", () => {
+    const fingerprint = randomFingerprint(500, 1);
+
+    expect(compareFingerprints(fingerprint, Uint32Array.from(fingerprint))).toBe(1);
+  });
+
+  it("lines up a recording with a trimmed copy of it", () => {
+    const fingerprint = randomFingerprint(500, 2);
+
+    expect(compareFingerprints(fingerprint, fingerprint.subarray(37))).toBe(1);
+    expect(compareFingerprints(fingerprint.subarray(37), fingerprint)).toBe(1);
+  });
+
+  it("scores by the share of bits that still match", () => {
+    const fingerprint = randomFingerprint(500, 3);
+    // One bit of every 32 flipped, so no sub-fingerprint matches exactly any more
+    const damaged = fingerprint.map((word) => (word ^ 1) >>> 0);
+
+    expect(compareFingerprints(fingerprint, damaged)).toBeCloseTo(1 - 2 / 32);
+  });
+
+  it("scores unrelated fingerprints close to 0", () => {
+    expect(compareFingerprints(randomFingerprint(500, 4), randomFingerprint(500, 5))).toBeLessThan(0.1);
+  });
+
+  it("scores fingerprints that overlap less than 5 seconds 0", () => {
+    const fingerprint = randomFingerprint(100, 6);
+
+    expect(compareFingerprints(fingerprint, fingerprint)).toBe(0);
+  });
+
+  it("matches audio played at another volume", () => {
+    const samples = noise(10, 7);
+    const quieter = samples.map((sample) => sample / 4);
+
+    expect(compareFingerprints(fingerprintSamples(samples), fingerprintSamples(quieter))).toBeGreaterThan(0.95);
+    expect(compareFingerprints(fingerprintSamples(samples), fingerprintSamples(noise(10, 8)))).toBeLessThan(0.2);
+  });
+
+  it("stores fingerprints losslessly", () => {
+    const fingerprint = randomFingerprint(500, 9);
+
+    expect(decodeFingerprint(encodeFingerprint(fingerprint))).toEqual(fingerprint);
+  });
+});
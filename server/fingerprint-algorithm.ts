@@ -0,0 +1,196 @@
+// The fingerprinting scheme itself, free of the database and of ffmpeg so that it can run in the
+// fingerprint worker (see fingerprint-worker.ts). The audio is decoded to mono PCM and cut into
+// overlapping frames. Each frame becomes a 32-bit sub-fingerprint whose bits tell whether the
+// energy difference between neighbouring frequency bands rose or fell since the previous frame
+// (Haitsma and Kalker's scheme), which survives lossy coding and changes in volume. Two
+// fingerprints are lined up at the offsets where most sub-fingerprints agree exactly, and compared
+// by the share of bits that match there.
+
+// Constants
+export const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 2048; // about 190ms
+const HOP_SIZE = 512; // about 46ms, so trims are matched to within 23ms
+const BAND_COUNT = 33; // 32 differences, one per bit
+const MIN_FREQUENCY = 300;
+const MAX_FREQUENCY = 2000;
+// Only the start of long tracks is fingerprinted, which keeps stored fingerprints small
+export const MAX_SECONDS = 5 * 60; // 5 minutes
+// Recordings must overlap this long for a comparison to mean anything
+const MIN_OVERLAP_FRAMES = Math.round((5 * SAMPLE_RATE) / HOP_SIZE); // 5 seconds
+// Offsets with the most exactly matching sub-fingerprints that are compared bit by bit
+const OFFSET_CANDIDATES = 5;
+
+// Fingerprints signed 16-bit little-endian mono PCM sampled at SAMPLE_RATE, as ffmpeg writes it
+export function fingerprintPcm(pcm: Buffer): Uint32Array {
+  const samples = new Float32Array(Math.floor(pcm.length / 2));
+  for (let index = 0; index < samples.length; index++) {
+    samples[index] = pcm.readInt16LE(index * 2) / 32768;
+  }
+  return fingerprintSamples(samples);
+}
+
+// Fingerprints mono audio sampled at SAMPLE_RATE
+export function fingerprintSamples(samples: Float32Array): Uint32Array {
+  const frameCount = samples.length < FRAME_SIZE ? 0 : Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  const fingerprint = new Uint32Array(Math.max(0, frameCount - 1));
+  const window = hannWindow(FRAME_SIZE);
+  const bands = bandEdges();
+  const real = new Float64Array(FRAME_SIZE);
+  const imaginary = new Float64Array(FRAME_SIZE);
+  let previous: Float64Array | undefined;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * HOP_SIZE;
+    for (let index = 0; index < FRAME_SIZE; index++) {
+      real[index] = samples[start + index] * window[index];
+      imaginary[index] = 0;
+    }
+    fft(real, imaginary);
+
+    const energies = new Float64Array(BAND_COUNT);
+    for (let band = 0; band < BAND_COUNT; band++) {
+      for (let bin = bands[band]; bin < bands[band + 1]; bin++) {
+        energies[band] += real[bin] * real[bin] + imaginary[bin] * imaginary[bin];
+      }
+    }
+
+    if (previous) {
+      let bits = 0;
+      for (let band = 0; band < BAND_COUNT - 1; band++) {
+        const change = (energies[band] - energies[band + 1]) - (previous[band] - previous[band + 1]);
+        if (change > 0) {
+          bits |= 1 << band;
+        }
+      }
+      fingerprint[frame - 1] = bits >>> 0;
+    }
+    previous = energies;
+  }
+  return fingerprint;
+}
+
+// How alike two fingerprints are, from 0 for unrelated audio to 1 for the same recording,
+// at the best of the offsets where their sub-fingerprints agree most often
+export function compareFingerprints(a: Uint32Array, b: Uint32Array): number {
+  if (a.length < MIN_OVERLAP_FRAMES || b.length < MIN_OVERLAP_FRAMES) {
+    return 0;
+  }
+
+  const positions = new Map<number, number[]>();
+  for (let index = 0; index < b.length; index++) {
+    const list = positions.get(b[index]);
+    if (list) {
+      list.push(index);
+    } else {
+      positions.set(b[index], [index]);
+    }
+  }
+
+  const votes = new Map<number, number>([[0, 0]]);
+  for (let index = 0; index < a.length; index++) {
+    const matches = positions.get(a[index]);
+    if (matches) {
+      for (const position of matches) {
+        votes.set(position - index, (votes.get(position - index) ?? 0) + 1);
+      }
+    }
+  }
+  const offsets = Array.from(votes.entries())
+    .sort((left, right) => right[1] - left[1])
+    .slice(0, OFFSET_CANDIDATES)
+    .map(([offset]) => offset);
+  if (!offsets.includes(0)) {
+    offsets.push(0);
+  }
+
+  let best = 0;
+  for (const offset of offsets) {
+    const start = Math.max(0, -offset);
+    const end = Math.min(a.length, b.length - offset);
+    if (end - start < MIN_OVERLAP_FRAMES) {
+      continue;
+    }
+    let differentBits = 0;
+    for (let index = start; index < end; index++) {
+      differentBits += bitCount(a[index] ^ b[index + offset]);
+    }
+    // Unrelated audio disagrees on about half of the bits
+    const bitErrorRate = differentBits / ((end - start) * 32);
+    best = Math.max(best, 1 - 2 * bitErrorRate);
+  }
+  return Math.max(0, Math.min(1, best));
+}
+
+// Fingerprints are stored as base64 of their little-endian 32-bit words
+export function encodeFingerprint(fingerprint: Uint32Array) {
+  const buffer = Buffer.alloc(fingerprint.length * 4);
+  fingerprint.forEach((word, index) => buffer.writeUInt32LE(word, index * 4));
+  return buffer.toString("base64");
+}
+
+export function decodeFingerprint(encoded: string): Uint32Array {
+  const buffer = Buffer.from(encoded, "base64");
+  const fingerprint = new Uint32Array(Math.floor(buffer.length / 4));
+  for (let index = 0; index < fingerprint.length; index++) {
+    fingerprint[index] = buffer.readUInt32LE(index * 4);
+  }
+  return fingerprint;
+}
+
+function hannWindow(size: number) {
+  const window = new Float64Array(size);
+  for (let index = 0; index < size; index++) {
+    window[index] = 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (size - 1));
+  }
+  return window;
+}
+
+// FFT bins bounding each band, spaced logarithmically between MIN_FREQUENCY and MAX_FREQUENCY
+function bandEdges() {
+  const edges: number[] = [];
+  for (let band = 0; band <= BAND_COUNT; band++) {
+    const frequency = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, band / BAND_COUNT);
+    edges.push(Math.round((frequency * FRAME_SIZE) / SAMPLE_RATE));
+  }
+  return edges;
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+function fft(real: Float64Array, imaginary: Float64Array) {
+  const size = real.length;
+  for (let index = 1, reversed = 0; index < size; index++) {
+    let bit = size >> 1;
+    for (; reversed & bit; bit >>= 1) {
+      reversed ^= bit;
+    }
+    reversed ^= bit;
+    if (index < reversed) {
+      [real[index], real[reversed]] = [real[reversed], real[index]];
+      [imaginary[index], imaginary[reversed]] = [imaginary[reversed], imaginary[index]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < size; start += length) {
+      for (let offset = 0; offset < length / 2; offset++) {
+        const cos = Math.cos(angle * offset);
+        const sin = Math.sin(angle * offset);
+        const even = start + offset;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * cos - imaginary[odd] * sin;
+        const oddImaginary = real[odd] * sin + imaginary[odd] * cos;
+        real[odd] = real[even] - oddReal;
+        imaginary[odd] = imaginary[even] - oddImaginary;
+        real[even] += oddReal;
+        imaginary[even] += oddImaginary;
+      }
+    }
+  }
+}
+
+function bitCount(value: number) {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
@@ -0,0 +1,40 @@
+import { parentPort } from "worker_threads";
+import { compareFingerprints, decodeFingerprint, fingerprintPcm } from "./fingerprint-algorithm";
+
+// Entry point of the worker thread that fingerprint.ts hands its number crunching to: the FFT over
+// minutes of audio and the comparison with hundreds of stored fingerprints would otherwise hold up
+// every request and event stream while a batch is fingerprinted.
+
+// Types
+export type FingerprintTask =
+  | { type: "fingerprint"; pcm: Uint8Array }
+  // Similarity of `fingerprint` to each of the encoded `candidates`, in order
+  | { type: "compare"; fingerprint: Uint32Array; candidates: string[] };
+
+export interface FingerprintTaskMessage {
+  id: number;
+  task: FingerprintTask;
+}
+
+export type FingerprintTaskResult =
+  | { id: number; result: Uint32Array | number[] }
+  | { id: number; error: string };
+
+function runTask(task: FingerprintTask) {
+  switch (task.type) {
+    case "fingerprint":
+      return fingerprintPcm(Buffer.from(task.pcm.buffer, task.pcm.byteOffset, task.pcm.byteLength));
+    case "compare":
+      return task.candidates.map((candidate) => compareFingerprints(task.fingerprint, decodeFingerprint(candidate)));
+  }
+}
+
+parentPort?.on("message", ({ id, task }: FingerprintTaskMessage) => {
+  let reply: FingerprintTaskResult;
+  try {
+    reply = { id, result: runTask(task) };
+  } catch (error: any) {
+    reply = { id, error: error.message };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -0,0 +1,175 @@
+import { Worker } from "worker_threads";
+import { and, desc, eq, isNotNull, isNull, ne } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { uploads, type SelectUpload } from "@db/schema";
+import { visibleAnalyses } from "./dedupe";
+import { runFfmpeg } from "./ffmpeg";
+import { MAX_SECONDS, SAMPLE_RATE } from "./fingerprint-algorithm";
+import type { FingerprintTask, FingerprintTaskMessage, FingerprintTaskResult } from "./fingerprint-worker";
+
+export { decodeFingerprint, encodeFingerprint } from "./fingerprint-algorithm";
+
+// Acoustic fingerprints, which recognize the same recording across re-encodes, bitrates and trims
+// where the content hash (see dedupe.ts) only catches identical files. The audio is decoded to
+// mono PCM with ffmpeg; fingerprinting it and comparing fingerprints (see fingerprint-algorithm.ts)
+// happen on a worker thread, so the server keeps answering while a batch is fingerprinted.
+
+// Types
+export interface FingerprintOptions {
+  enabled: boolean;
+  threshold: number; // 0 to 1
+  maxCandidates: number;
+}
+
+// An earlier analysis that appears to be of the same recording
+export interface SimilarAnalysis {
+  uploadId: number;
+  fileName: string;
+  similarity: number; // 0 to 1
+  isAi: boolean;
+  confidence: number;
+  analyzedAt: Date;
+}
+
+// Tasks sent to the worker that are waiting for its reply, by id
+type PendingTasks = Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>;
+
+// Constants
+const fingerprintEnvSchema = z.object({
+  // Off by default like transcoding, since it needs ffmpeg
+  FINGERPRINT_ENABLED: z.enum(["true", "false", "1", "0"]).default("false"),
+  FINGERPRINT_SIMILARITY_THRESHOLD: z.coerce.number().min(0).max(1).default(0.5),
+  FINGERPRINT_MAX_CANDIDATES: z.coerce.number().int().positive().default(500)
+});
+
+export const fingerprintOptions = loadFingerprintOptions();
+
+function loadFingerprintOptions(): FingerprintOptions {
+  const parsed = fingerprintEnvSchema.safeParse(process.env);
+  if (!parsed.success) {
+    throw new Error(`Invalid fingerprint settings: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`);
+  }
+  return {
+    enabled: parsed.data.FINGERPRINT_ENABLED === "true" || parsed.data.FINGERPRINT_ENABLED === "1",
+    threshold: parsed.data.FINGERPRINT_SIMILARITY_THRESHOLD,
+    maxCandidates: parsed.data.FINGERPRINT_MAX_CANDIDATES
+  };
+}
+
+// The fingerprint worker, started on first use and restarted after it fails
+let worker: { thread: Worker; pending: PendingTasks } | undefined;
+let nextTaskId = 0;
+
+// Decodes the start of an audio file with ffmpeg and fingerprints it
+export async function fingerprintFile(path: string, signal: AbortSignal): Promise<Uint32Array> {
+  const chunks: Buffer[] = [];
+  await runFfmpeg([
+    "-i", path,
+    "-map", "0:a:0", "-t", String(MAX_SECONDS),
+    "-ac", "1", "-ar", String(SAMPLE_RATE),
+    "-f", "s16le", "-acodec", "pcm_s16le",
+    "pipe:1"
+  ], signal, (chunk) => chunks.push(chunk));
+
+  return runInWorker({ type: "fingerprint", pcm: Buffer.concat(chunks) });
+}
+
+// The most similar earlier analysis the owner of `record` can see, if any reaches the threshold.
+// Only the most recent FINGERPRINT_MAX_CANDIDATES analyses are compared.
+export async function findSimilarAnalysis(record: SelectUpload, fingerprint: Uint32Array): Promise<SimilarAnalysis | undefined> {
+  const candidates = await db.select({
+    id: uploads.id,
+    fileName: uploads.fileName,
+    fingerprint: uploads.fingerprint,
+    isAi: uploads.isAi,
+    confidenceScore: uploads.confidenceScore,
+    completedAt: uploads.completedAt
+  })
+    .from(uploads)
+    .where(and(
+      ne(uploads.id, record.id),
+      eq(uploads.status, "done"),
+      isNotNull(uploads.isAi),
+      isNotNull(uploads.fingerprint),
+      // Reused verdicts would only repeat the analysis they were reused from
+      isNull(uploads.cachedFromId),
+      visibleAnalyses(record)
+    ))
+    .orderBy(desc(uploads.completedAt))
+    .limit(fingerprintOptions.maxCandidates);
+
+  const similarities: number[] = await runInWorker({
+    type: "compare",
+    fingerprint,
+    candidates: candidates.map((candidate) => candidate.fingerprint!)
+  });
+
+  let best: SimilarAnalysis | undefined;
+  candidates.forEach((candidate, index) => {
+    const similarity = similarities[index];
+    if (similarity >= fingerprintOptions.threshold && similarity > (best?.similarity ?? 0)) {
+      best = {
+        uploadId: candidate.id,
+        fileName: candidate.fileName,
+        similarity,
+        isAi: candidate.isAi!,
+        confidence: Number(candidate.confidenceScore),
+        analyzedAt: candidate.completedAt!
+      };
+    }
+  });
+  return best;
+}
+
+// Sends a task to the fingerprint worker and resolves with its result
+function runInWorker(task: FingerprintTask): Promise<any> {
+  const { thread, pending } = fingerprintWorker();
+  const message: FingerprintTaskMessage = { id: nextTaskId++, task };
+  return new Promise((resolve, reject) => {
+    pending.set(message.id, { resolve, reject });
+    thread.ref();
+    thread.postMessage(message);
+  });
+}
+
+function fingerprintWorker() {
+  if (worker) {
+    return worker;
+  }
+
+  // Under tsx (npm run dev) the worker is TypeScript, which a worker thread only loads once tsx is
+  // registered in it; the production build bundles it next to index.js
+  const thread = import.meta.url.endsWith(".ts")
+    ? new Worker(
+      `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(new URL("./fingerprint-worker.ts", import.meta.url).href)}); });`,
+      { eval: true }
+    )
+    : new Worker(new URL("./fingerprint-worker.js", import.meta.url));
+  const started = { thread, pending: new Map() as PendingTasks };
+  worker = started;
+
+  thread.on("message", (reply: FingerprintTaskResult) => {
+    const task = started.pending.get(reply.id);
+    started.pending.delete(reply.id);
+    // Idle, it should not keep the process alive
+    if (started.pending.size === 0) {
+      thread.unref();
+    }
+    if ("error" in reply) {
+      task?.reject(new Error(reply.error));
+    } else {
+      task?.resolve(reply.result);
+    }
+  });
+  const fail = (error: Error) => {
+    if (worker === started) {
+      worker = undefined;
+    }
+    started.pending.forEach((task) => task.reject(error));
+    started.pending.clear();
+  };
+  thread.on("error", (error) => fail(error));
+  thread.on("exit", (code) => fail(new Error(`Fingerprint worker stopped with exit code ${code}`)));
+  return started;
+}
@@ -2,12 +2,14 @@ import 'dotenv/config';
 import express from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { isIrcamMockEnabled, startMockIrcamServer } from "./mock-ircam";
 import { log } from "./vite";
 
 // Environment variable validation and logging
 const envGroups = {
   api: ['IRCAM_CLIENT_ID', 'IRCAM_CLIENT_SECRET'],
   database: ['DATABASE_URL', 'PGHOST', 'PGPORT', 'PGUSER', 'PGDATABASE'],
+  session: ['SESSION_SECRET'],
   server: ['NODE_ENV', 'PORT']
 };
 
@@ -35,7 +37,8 @@ function logEnvironmentStatus() {
   if (process.env.NODE_ENV === 'production') {
     console.log('\nProduction Environment Checks:');
     console.log('─'.repeat(30));
-    const missingRequired = [...envGroups.api, ...envGroups.database]
+    // Without its own session secret, anyone could sign session cookies with the development default
+    const missingRequired = [...envGroups.api, ...envGroups.database, ...envGroups.session]
       .filter(v => !process.env[v]);
 
     if (missingRequired.length > 0) {
@@ -53,6 +56,11 @@ function logEnvironmentStatus() {
 // Log environment status at startup
 logEnvironmentStatus();
 
+// Offline development: serve a stand-in for the IRCAM Amplify APIs
+if (isIrcamMockEnabled()) {
+  startMockIrcamServer();
+}
+
 // Initialize Express app
 const app = express();
 
@@ -62,12 +70,13 @@ if (process.env.NODE_ENV === 'development') {
     origin: ['http://localhost:5000', 'http://localhost:3000'],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
   }));
 } else {
-  // In production, only allow our own domain
+  // In production the app serves its own pages, so other origins only get in when APP_URL names
+  // a separate front end; credentialed calls from anywhere else are refused
   app.use(cors({
-    origin: true, // This will reflect the request origin if it matches our domain
+    origin: process.env.APP_URL ? new URL(process.env.APP_URL).origin : false,
     credentials: true
   }));
 }
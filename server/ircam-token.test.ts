@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { TokenManager, type TokenResponse } from "./ircam-token";
+
+// An unsigned JWT whose `exp` claim is `seconds` from now
+function jwt(seconds: number) {
+  const claims = Buffer.from(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + seconds })).toString("base64url");
+  return `header.${claims}.signature`;
+}
+
+// A token endpoint that answers only when told to, so calls can overlap a refresh
+function tokenEndpoint() {
+  const pending: ((response: TokenResponse) => void)[] = [];
+  const fetchToken = vi.fn(() => new Promise<TokenResponse>((resolve) => pending.push(resolve)));
+  return { fetchToken, answer: (response: TokenResponse) => pending.shift()!(response) };
+}
+
+describe("TokenManager", () => {
+  it("shares one refresh between concurrent callers", async () => {
+    const { fetchToken, answer } = tokenEndpoint();
+    const manager = new TokenManager(fetchToken);
+
+    const tokens = Promise.all([manager.getToken(), manager.getToken(), manager.getToken()]);
+    const token = jwt(3600);
+    answer({ id_token: token });
+
+    expect(await tokens).toEqual([token, token, token]);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("reuses the token until shortly before it expires", async () => {
+    const fetchToken = vi.fn()
+      .mockResolvedValueOnce({ id_token: jwt(3600) })
+      .mockResolvedValueOnce({ id_token: jwt(30) })
+      .mockResolvedValueOnce({ id_token: jwt(3600) });
+    const manager = new TokenManager(fetchToken);
+
+    const first = await manager.getToken();
+    expect(await manager.getToken()).toBe(first);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+
+    // A token with less than a minute left is refreshed on its next use
+    manager.invalidate(first);
+    const expiring = await manager.getToken();
+    expect(await manager.getToken()).not.toBe(expiring);
+    expect(fetchToken).toHaveBeenCalledTimes(3);
+  });
+
+  it("falls back to expires_in for tokens that are not JWTs", async () => {
+    const fetchToken = vi.fn().mockResolvedValue({ id_token: "opaque", expires_in: 3600 });
+    const manager = new TokenManager(fetchToken);
+
+    await manager.getToken();
+    await manager.getToken();
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("only drops the token that was rejected", async () => {
+    const fetchToken = vi.fn()
+      .mockResolvedValueOnce({ id_token: jwt(3600) })
+      .mockResolvedValueOnce({ id_token: jwt(3600) });
+    const manager = new TokenManager(fetchToken);
+
+    const token = await manager.getToken();
+    manager.invalidate("some older token");
+    expect(await manager.getToken()).toBe(token);
+
+    manager.invalidate(token);
+    await manager.getToken();
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("tries again after a failed refresh", async () => {
+    const fetchToken = vi.fn()
+      .mockRejectedValueOnce(new Error("IRCAM is down"))
+      .mockResolvedValueOnce({ id_token: "recovered", expires_in: 3600 });
+    const manager = new TokenManager(fetchToken);
+
+    await expect(manager.getToken()).rejects.toThrow("IRCAM is down");
+    await expect(manager.getToken()).resolves.toBe("recovered");
+  });
+});
@@ -0,0 +1,79 @@
+// Types
+export interface TokenResponse {
+  id_token: string;
+  expires_in?: number;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Constants
+const REFRESH_MARGIN = 60 * 1000; // Refresh 1 minute before the token expires
+const DEFAULT_TOKEN_LIFETIME = 5 * 60 * 1000; // Used when neither the JWT nor the response says
+
+// Caches the IRCAM OAuth token and refreshes it shortly before it expires.
+// Concurrent callers share a single in-flight refresh instead of each requesting a token.
+export class TokenManager {
+  private cached: CachedToken | null = null;
+  private refreshing: Promise<CachedToken> | null = null;
+
+  constructor(private readonly fetchToken: () => Promise<TokenResponse>) {}
+
+  async getToken(): Promise<string> {
+    if (this.cached && this.cached.expiresAt - REFRESH_MARGIN > Date.now()) {
+      return this.cached.token;
+    }
+    return (await this.refresh()).token;
+  }
+
+  // Drops the cached token if it is the one that was rejected, so the next call fetches a new one
+  invalidate(token: string) {
+    if (this.cached?.token === token) {
+      this.cached = null;
+    }
+  }
+
+  private refresh(): Promise<CachedToken> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchToken()
+        .then((response) => {
+          this.cached = {
+            token: response.id_token,
+            expiresAt: tokenExpiry(response)
+          };
+          return this.cached;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+}
+
+// Prefers the JWT's own `exp` claim, then the OAuth `expires_in`, then a conservative default
+function tokenExpiry(response: TokenResponse): number {
+  const exp = decodeJwtExpiry(response.id_token);
+  if (exp) {
+    return exp;
+  }
+  if (response.expires_in) {
+    return Date.now() + response.expires_in * 1000;
+  }
+  return Date.now() + DEFAULT_TOKEN_LIFETIME;
+}
+
+function decodeJwtExpiry(token: string): number | null {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof claims.exp === "number" ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
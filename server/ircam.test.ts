@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { IrcamClient, ircamClientOptionsFromEnv } from "./ircam";
+import { IrcamHttpError } from "./errors";
+
+// A stand-in IRCAM API answering every call with the next of the queued statuses, then 200
+let server: Server;
+let baseUrl: string;
+let statuses: number[];
+let calls: string[];
+
+beforeAll(async () => {
+  const app = express();
+  app.post("/api/oauth/token", (_req, res) => {
+    res.json({ id_token: "token", expires_in: 3600 });
+  });
+  app.use((req, res) => {
+    calls.push(`${req.method} ${req.path}`);
+    const status = statuses.shift() ?? 200;
+    res.status(status).json(status === 200 ? { id: "job-1", ias: "ias://file" } : { message: "Unavailable" });
+  });
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  statuses = [];
+  calls = [];
+});
+
+function createClient() {
+  const options = ircamClientOptionsFromEnv();
+  return new IrcamClient({
+    ...options,
+    apiBaseUrl: `${baseUrl}/api`,
+    storageBaseUrl: `${baseUrl}/storage`,
+    retry: { retries: 2, minDelayMs: 1, maxDelayMs: 1 }
+  });
+}
+
+describe("IrcamClient retries", () => {
+  it("repeats status checks after a gateway error", async () => {
+    statuses = [503, 502];
+
+    await expect(createClient().getStorageFile("file-1")).resolves.toMatchObject({ ias: "ias://file" });
+    expect(calls).toEqual(Array(3).fill("GET /storage/manager/file-1"));
+  });
+
+  it("does not repeat a POST that may have started a job", async () => {
+    statuses = [503];
+
+    await expect(createClient().startDetection(["ias://file"])).rejects.toBeInstanceOf(IrcamHttpError);
+    expect(calls).toEqual(["POST /api/aidetector/"]);
+  });
+
+  it("repeats a POST that was turned away with 429", async () => {
+    statuses = [429];
+
+    await expect(createClient().startSeparation("ias://file")).resolves.toEqual({ id: "job-1", ias: "ias://file" });
+    expect(calls).toEqual(Array(2).fill("POST /api/stemseparator/"));
+  });
+});
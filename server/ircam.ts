@@ -0,0 +1,417 @@
+import axios, { type AxiosInstance, type AxiosRequestConfig } from "axios";
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import {
+  DetectionFailedError,
+  DetectionTimeoutError,
+  IrcamAuthError,
+  IrcamHttpError,
+  IrcamNetworkError
+} from "./errors";
+import { TokenManager, type TokenResponse } from "./ircam-token";
+import { STEMS, type Stem } from "@shared/stems";
+
+// Request and response models of the IRCAM Amplify endpoints we use
+export interface OAuthTokenRequest {
+  client_id: string;
+  client_secret: string;
+  grant_type: "client_credentials";
+  scope: string;
+}
+
+export interface OAuthTokenResponse extends TokenResponse {
+  token_type?: string;
+}
+
+export interface StorageLocation {
+  id: string;
+}
+
+export interface StorageFileInfo {
+  id: string;
+  ias: string;
+}
+
+export interface DetectionRequest {
+  audioUrlList: string[];
+}
+
+export interface DetectionJobCreated {
+  id: string;
+}
+
+export interface DetectionResult {
+  isAi: boolean;
+  confidence: number;
+}
+
+// Both the detector and the stem separator report their jobs in this shape
+export interface IrcamJobStatus<Report> {
+  job_infos: {
+    job_status: string;
+    report_info?: {
+      report: Report;
+    };
+  };
+}
+
+export type DetectionJobStatus = IrcamJobStatus<{ resultList: DetectionResult[] }>;
+
+export interface SeparationRequest {
+  audioUrl: string;
+}
+
+export interface SeparationJobCreated {
+  id: string;
+}
+
+// The separated stems are left in IRCAM storage, and reported as IAS URLs the detector accepts
+export type SeparationJobStatus = IrcamJobStatus<{ stems: Record<Stem, string> }>;
+
+// Audio on local disk, streamed to storage rather than read into memory
+export interface UploadableFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  path: string;
+}
+
+// Client configuration
+export interface RetryPolicy {
+  retries: number;
+  minDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface PollingPolicy {
+  initialIntervalMs: number;
+  maxIntervalMs: number;
+  timeoutMs: number;
+  backoffFactor: number;
+}
+
+export interface IrcamClientOptions {
+  clientId: string;
+  clientSecret: string;
+  apiBaseUrl: string;
+  storageBaseUrl: string;
+  requestTimeoutMs: number;
+  uploadTimeoutMs: number;
+  retry: RetryPolicy;
+  polling: PollingPolicy;
+  log?: (step: string, data?: any) => void;
+}
+
+export interface WaitForJobOptions {
+  signal: AbortSignal;
+  onStatus?: (status: string) => void;
+}
+
+// Constants
+export const PENDING_JOB_STATUSES = ['pending', 'queued', 'created', 'processing', 'in_progress', 'running'];
+export const FAILED_JOB_STATUSES = ['error', 'failed', 'cancelled', 'canceled'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+export function ircamClientOptionsFromEnv(log?: IrcamClientOptions["log"]): IrcamClientOptions {
+  const env = process.env;
+  return {
+    clientId: env.IRCAM_CLIENT_ID ?? "",
+    clientSecret: env.IRCAM_CLIENT_SECRET ?? "",
+    apiBaseUrl: env.IRCAM_API_URL || "https://api.ircamamplify.io",
+    storageBaseUrl: env.IRCAM_STORAGE_URL || "https://storage.ircamamplify.io",
+    requestTimeoutMs: Number(env.IRCAM_REQUEST_TIMEOUT_MS) || 30 * 1000, // 30 seconds
+    uploadTimeoutMs: Number(env.IRCAM_UPLOAD_TIMEOUT_MS) || 10 * 60 * 1000, // 10 minutes
+    retry: {
+      retries: env.IRCAM_MAX_RETRIES !== undefined ? Number(env.IRCAM_MAX_RETRIES) : 2,
+      minDelayMs: 500,
+      maxDelayMs: 5000
+    },
+    polling: {
+      initialIntervalMs: Number(env.IRCAM_POLL_INITIAL_INTERVAL_MS) || 5000, // 5 seconds
+      maxIntervalMs: Number(env.IRCAM_POLL_MAX_INTERVAL_MS) || 60 * 1000, // 1 minute
+      timeoutMs: Number(env.IRCAM_POLL_TIMEOUT_MS) || 30 * 60 * 1000, // 30 minutes
+      backoffFactor: 1.5
+    },
+    log
+  };
+}
+
+// Typed client for the IRCAM Amplify OAuth, storage, AI detector and stem separator APIs.
+// Every authenticated call shares one cached token and is retried once with a
+// fresh token on 401, and up to `retry.retries` times on 429. GETs and uploads are also
+// retried on network errors and 502/503/504; POSTs are not (see isRetryable).
+export class IrcamClient {
+  private readonly http: AxiosInstance;
+  private readonly tokens: TokenManager;
+  private readonly log: (step: string, data?: any) => void;
+
+  constructor(private readonly options: IrcamClientOptions) {
+    this.http = axios.create({ timeout: options.requestTimeoutMs });
+    this.tokens = new TokenManager(() => this.requestToken());
+    this.log = options.log ?? (() => {});
+  }
+
+  // Makes sure a valid token is cached, fetching one if needed
+  async authenticate(): Promise<void> {
+    await this.tokens.getToken();
+  }
+
+  async createStorageLocation(signal?: AbortSignal): Promise<StorageLocation> {
+    this.log("Creating storage location");
+    return this.request<StorageLocation>("storage manager", {
+      method: "POST",
+      url: `${this.options.storageBaseUrl}/manager/`,
+      data: {}
+    }, signal);
+  }
+
+  async uploadFile(fileId: string, file: UploadableFile, signal?: AbortSignal): Promise<void> {
+    this.log(`Uploading ${file.originalname} to IRCAM storage`);
+    // A stream can only be sent once, so every attempt opens the file again
+    await this.request<unknown>("storage upload", () => ({
+      method: "PUT",
+      url: `${this.options.storageBaseUrl}/${fileId}/${encodeURIComponent(file.originalname)}`,
+      data: createReadStream(file.path),
+      headers: { "Content-Type": file.mimetype, "Content-Length": String(file.size) },
+      timeout: this.options.uploadTimeoutMs,
+      maxBodyLength: Infinity
+    }), signal);
+  }
+
+  async getStorageFile(fileId: string, signal?: AbortSignal): Promise<StorageFileInfo> {
+    this.log("Getting IAS URL for uploaded file");
+    return this.request<StorageFileInfo>("storage manager", {
+      method: "GET",
+      url: `${this.options.storageBaseUrl}/manager/${fileId}`
+    }, signal);
+  }
+
+  async startDetection(audioUrls: string[], signal?: AbortSignal): Promise<DetectionJobCreated> {
+    this.log("Starting AI detection", { fileCount: audioUrls.length });
+    const body: DetectionRequest = { audioUrlList: audioUrls };
+    return this.request<DetectionJobCreated>("aidetector", {
+      method: "POST",
+      url: `${this.options.apiBaseUrl}/aidetector/`,
+      data: body
+    }, signal);
+  }
+
+  async getDetectionJob(jobId: string, signal?: AbortSignal): Promise<DetectionJobStatus> {
+    return this.request<DetectionJobStatus>("aidetector", {
+      method: "GET",
+      url: `${this.options.apiBaseUrl}/aidetector/${jobId}`
+    }, signal);
+  }
+
+  async startSeparation(audioUrl: string, signal?: AbortSignal): Promise<SeparationJobCreated> {
+    this.log("Starting stem separation");
+    const body: SeparationRequest = { audioUrl };
+    return this.request<SeparationJobCreated>("stemseparator", {
+      method: "POST",
+      url: `${this.options.apiBaseUrl}/stemseparator/`,
+      data: body
+    }, signal);
+  }
+
+  async getSeparationJob(jobId: string, signal?: AbortSignal): Promise<SeparationJobStatus> {
+    return this.request<SeparationJobStatus>("stemseparator", {
+      method: "GET",
+      url: `${this.options.apiBaseUrl}/stemseparator/${jobId}`
+    }, signal);
+  }
+
+  async waitForDetection(jobId: string, options: WaitForJobOptions): Promise<DetectionResult[]> {
+    const report = await this.waitForJob("Detector", jobId, (signal) => this.getDetectionJob(jobId, signal), options);
+    const results = report?.resultList;
+    if (!Array.isArray(results)) {
+      throw new DetectionFailedError(jobId, "Detector reported success without a report");
+    }
+    this.log("Analysis complete", results);
+    return results;
+  }
+
+  // Resolves with the IAS URL of every stem
+  async waitForSeparation(jobId: string, options: WaitForJobOptions): Promise<Record<Stem, string>> {
+    const report = await this.waitForJob("Stem separator", jobId, (signal) => this.getSeparationJob(jobId, signal), options);
+    const stems = report?.stems;
+    if (!stems || STEMS.some((stem) => typeof stems[stem] !== "string")) {
+      throw new DetectionFailedError(jobId, "Stem separator reported success without every stem");
+    }
+    this.log("Separation complete", stems);
+    return stems;
+  }
+
+  // Polls a job with exponential backoff until it reports a final status, giving up after
+  // `polling.timeoutMs` or as soon as the signal is aborted. Resolves with the job's report.
+  private async waitForJob<Report>(
+    service: string,
+    jobId: string,
+    getJob: (signal: AbortSignal) => Promise<IrcamJobStatus<Report>>,
+    { signal, onStatus }: WaitForJobOptions
+  ): Promise<Report | undefined> {
+    const { timeoutMs } = this.options.polling;
+    const startTime = Date.now();
+    let attempts = 0;
+
+    while (true) {
+      const elapsed = Date.now() - startTime;
+      if (elapsed >= timeoutMs) {
+        throw new DetectionTimeoutError(jobId, elapsed, service);
+      }
+
+      attempts++;
+      await sleep(Math.min(this.pollDelay(attempts), timeoutMs - elapsed), signal);
+
+      this.log(`Waiting on ${service.toLowerCase()}, attempt ${attempts}`);
+      const response = await getJob(signal);
+
+      const status = response.job_infos?.job_status;
+      onStatus?.(status);
+
+      if (status === "success") {
+        return response.job_infos.report_info?.report;
+      }
+
+      if (FAILED_JOB_STATUSES.includes(status)) {
+        throw new DetectionFailedError(jobId, `${service} reported the job as ${status}`);
+      }
+
+      if (!PENDING_JOB_STATUSES.includes(status)) {
+        // Keep polling: an unknown status is more likely a new intermediate state than a failure
+        this.log(`Unknown ${service.toLowerCase()} status "${status}", still waiting`);
+      }
+    }
+  }
+
+  private async requestToken(): Promise<OAuthTokenResponse> {
+    this.log("Authenticating with IRCAM Amplify");
+
+    const payload: OAuthTokenRequest = {
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret,
+      grant_type: "client_credentials",
+      scope: "api" // Adding required scope parameter
+    };
+
+    try {
+      const response = await this.http.post<OAuthTokenResponse>(`${this.options.apiBaseUrl}/oauth/token`, payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        }
+      });
+
+      if (!response.data.id_token) {
+        throw new IrcamAuthError('No id_token received in response');
+      }
+
+      this.log("Auth token received", { tokenReceived: true });
+      return response.data;
+    } catch (error: any) {
+      if (error instanceof IrcamAuthError) {
+        throw error;
+      }
+      console.error('Auth token error:', {
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new IrcamAuthError(error.response?.data?.message || error.message);
+    }
+  }
+
+  private async request<T>(
+    endpoint: string,
+    requestConfig: AxiosRequestConfig | (() => AxiosRequestConfig),
+    signal?: AbortSignal
+  ): Promise<T> {
+    let retries = 0;
+    let refreshedToken = false;
+
+    while (true) {
+      const token = await this.tokens.getToken();
+      const config = typeof requestConfig === "function" ? requestConfig() : requestConfig;
+      try {
+        const response = await this.http.request<T>({
+          ...config,
+          signal,
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+            Accept: "application/json",
+            ...config.headers
+          }
+        });
+        return response.data;
+      } catch (error: any) {
+        // A request that failed part way leaves its upload stream open
+        if (config.data instanceof Readable) {
+          config.data.destroy();
+        }
+        if (axios.isCancel(error) || signal?.aborted) {
+          throw error;
+        }
+
+        const status: number | undefined = error.response?.status;
+        if (status === 401 && !refreshedToken) {
+          this.log("IRCAM rejected the auth token, retrying with a new one");
+          this.tokens.invalidate(token);
+          refreshedToken = true;
+          continue;
+        }
+
+        if (retries < this.options.retry.retries && isRetryable(config, status)) {
+          retries++;
+          this.log(`IRCAM ${endpoint} request failed, retry ${retries} of ${this.options.retry.retries}`, {
+            status,
+            error: error.message
+          });
+          await sleep(this.retryDelay(retries), signal);
+          continue;
+        }
+
+        throw status === undefined
+          ? new IrcamNetworkError(endpoint, error.message)
+          : new IrcamHttpError(endpoint, status, error.response?.data);
+      }
+    }
+  }
+
+  // Exponential backoff with ±20% jitter so concurrent jobs do not poll in lockstep
+  private pollDelay(attempt: number) {
+    const { initialIntervalMs, maxIntervalMs, backoffFactor } = this.options.polling;
+    const base = Math.min(initialIntervalMs * backoffFactor ** (attempt - 1), maxIntervalMs);
+    return base * (0.8 + Math.random() * 0.4);
+  }
+
+  private retryDelay(retry: number) {
+    const { minDelayMs, maxDelayMs } = this.options.retry;
+    return Math.min(minDelayMs * 2 ** (retry - 1), maxDelayMs) * (0.8 + Math.random() * 0.4);
+  }
+}
+
+// A POST that got no answer, or a gateway error, may still have been carried out by IRCAM, and
+// sending it again would create (and bill) a second job or storage location. Only a 429 says for
+// sure that it was turned away. GETs and the upload to a file's own URL can safely be repeated.
+function isRetryable(config: AxiosRequestConfig, status: number | undefined) {
+  if (status === 429) {
+    return true;
+  }
+  return config.method?.toUpperCase() !== "POST" && (status === undefined || RETRYABLE_STATUSES.includes(status));
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
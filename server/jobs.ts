@@ -0,0 +1,259 @@
+import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter } from "events";
+import type { AudioSegment, StemVerdicts } from "@db/schema";
+import { JobCancelledError } from "./errors";
+
+// Types
+export type JobStage =
+  | "pending"
+  | "fetching"
+  | "transcoding"
+  | "segmenting"
+  | "authenticating"
+  | "uploading"
+  | "separating"
+  | "queued"
+  | "analyzing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface AnalysisResult {
+  isAi: boolean;
+  confidence: number;
+  // Present when the verdict was reused from an earlier analysis of the same audio
+  cachedFrom?: { uploadId: number; analyzedAt: string };
+  // The verdict of every window of a segmented analysis, in order
+  segments?: AudioSegment[];
+  // The verdict for each stem, when the track was separated; the rest of the result is the full mix's
+  stems?: StemVerdicts;
+}
+
+// An earlier analysis of what appears to be the same recording, found by its acoustic fingerprint
+export interface SimilarRecording {
+  uploadId: number;
+  fileName: string;
+  similarity: number; // 0 to 1
+  isAi: boolean;
+  confidence: number;
+  analyzedAt: string;
+}
+
+export interface JobTrack {
+  uploadId: number;
+  fileName: string;
+  result?: AnalysisResult;
+  similarTo?: SimilarRecording;
+}
+
+// Who started a job; only they, and the members of their workspace, may follow or cancel it
+export interface JobOwner {
+  sessionId: string;
+  userId?: number;
+  workspaceId?: number;
+}
+
+export interface JobStep {
+  message: string;
+  timestamp: string;
+}
+
+export interface Job {
+  id: string;
+  stage: JobStage;
+  tracks: JobTrack[];
+  steps: JobStep[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Constants
+const FINISHED_JOB_TTL = 60 * 60 * 1000; // 1 hour
+const CLEANUP_INTERVAL = 10 * 60 * 1000; // 10 minutes
+const MAX_JOB_STEPS = 100;
+// How long a job keeps running after the last event stream of the user who started it disconnects
+const ABANDONED_JOB_GRACE = 30 * 1000; // 30 seconds
+// Job ids are UUIDs, so this event name cannot clash with a per-job event
+const JOB_FINISHED_EVENT = "job:finished";
+
+const jobs = new Map<string, Job>();
+const jobEvents = new EventEmitter().setMaxListeners(0);
+const jobContext = new AsyncLocalStorage<string>();
+const controllers = new Map<string, AbortController>();
+const owners = new Map<string, JobOwner>();
+const abandonTimers = new Map<string, NodeJS.Timeout>();
+// Open event streams of the user who started each job
+const submitterStreams = new Map<string, number>();
+
+export function isTerminalStage(stage: JobStage) {
+  return stage === "done" || stage === "failed" || stage === "cancelled";
+}
+
+// Jobs restored from the queue keep the id they were given when they were first submitted
+export function createJob(tracks: JobTrack[], owner: JobOwner, stage: JobStage = "authenticating", id: string = randomUUID()): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id,
+    stage,
+    tracks,
+    steps: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  jobs.set(job.id, job);
+  controllers.set(job.id, new AbortController());
+  owners.set(job.id, owner);
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+// Ids of the jobs in memory that have not finished yet
+export function listUnfinishedJobIds(): string[] {
+  return Array.from(jobs.values())
+    .filter((job) => !isTerminalStage(job.stage))
+    .map((job) => job.id);
+}
+
+// Logged-in users own their jobs across sessions and share them with their workspace,
+// anonymous jobs belong to their session
+export function isJobOwner(id: string, requester: JobOwner) {
+  const owner = owners.get(id);
+  if (!owner) {
+    return false;
+  }
+  if (owner.workspaceId !== undefined && owner.workspaceId === requester.workspaceId) {
+    return true;
+  }
+  return isSubmitter(owner, requester);
+}
+
+// The user, or for anonymous jobs the session, that started the job, leaving out the rest of its workspace
+function isSubmitter(owner: JobOwner, requester: JobOwner) {
+  return owner.userId !== undefined
+    ? owner.userId === requester.userId
+    : owner.sessionId === requester.sessionId;
+}
+
+export function updateJob(id: string, patch: Partial<Omit<Job, "id" | "createdAt">>) {
+  const job = jobs.get(id);
+  if (!job) {
+    return;
+  }
+  const wasRunning = !isTerminalStage(job.stage);
+  Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+  if (isTerminalStage(job.stage)) {
+    controllers.delete(id);
+    clearTimeout(abandonTimers.get(id));
+    abandonTimers.delete(id);
+  }
+  jobEvents.emit(id, job);
+  if (wasRunning && isTerminalStage(job.stage)) {
+    jobEvents.emit(JOB_FINISHED_EVENT, job);
+  }
+}
+
+// Called once per job, when it reaches done, failed or cancelled
+export function onJobFinished(listener: (job: Job) => void) {
+  jobEvents.on(JOB_FINISHED_EVENT, listener);
+}
+
+// Aborted when the job is cancelled; every step of the pipeline should honor it
+export function jobSignal(id: string): AbortSignal {
+  return controllers.get(id)?.signal ?? AbortSignal.abort(new JobCancelledError("Job is no longer running"));
+}
+
+// Returns false if the job does not exist or has already finished
+export function cancelJob(id: string, reason?: string): boolean {
+  return abortJob(id, new JobCancelledError(reason));
+}
+
+// Like cancelJob, but the job ends with `reason` as its error rather than as cancelled
+export function abortJob(id: string, reason: Error): boolean {
+  const controller = controllers.get(id);
+  if (!controller) {
+    return false;
+  }
+  controller.abort(reason);
+  return true;
+}
+
+// Records a pipeline step against a job so it can be streamed to the client
+export function addJobStep(id: string, message: string) {
+  const job = jobs.get(id);
+  if (!job) {
+    return;
+  }
+  const steps = [...job.steps, { message, timestamp: new Date().toISOString() }].slice(-MAX_JOB_STEPS);
+  updateJob(id, { steps });
+}
+
+// When the last stream of the user who started a running job disconnects and they do not come
+// back within the grace period, the job is cancelled instead of running for nobody. Workspace
+// members following the job neither keep it alive nor have it cancelled by leaving.
+export function subscribeToJob(id: string, subscriber: JobOwner, listener: (job: Job) => void) {
+  const owner = owners.get(id);
+  const submitter = owner !== undefined && isSubmitter(owner, subscriber);
+  if (submitter) {
+    clearTimeout(abandonTimers.get(id));
+    abandonTimers.delete(id);
+    submitterStreams.set(id, (submitterStreams.get(id) ?? 0) + 1);
+  }
+  jobEvents.on(id, listener);
+
+  return () => {
+    jobEvents.off(id, listener);
+    if (!submitter) {
+      return;
+    }
+    const remaining = (submitterStreams.get(id) ?? 1) - 1;
+    if (remaining > 0) {
+      submitterStreams.set(id, remaining);
+      return;
+    }
+    submitterStreams.delete(id);
+    if (controllers.has(id)) {
+      abandonTimers.set(id, setTimeout(() => {
+        abandonTimers.delete(id);
+        cancelJob(id, "Client disconnected");
+      }, ABANDONED_JOB_GRACE));
+    }
+  };
+}
+
+// Runs fn with `id` as the current job, so steps logged anywhere below it are attributed to that job
+export function runWithJob<T>(id: string, fn: () => T): T {
+  return jobContext.run(id, fn);
+}
+
+export function currentJobId(): string | undefined {
+  return jobContext.getStore();
+}
+
+// Finished jobs are only kept long enough for the client to pick up the result
+setInterval(() => {
+  const cutoff = Date.now() - FINISHED_JOB_TTL;
+  jobs.forEach((job, id) => {
+    if (isTerminalStage(job.stage) && Date.parse(job.updatedAt) < cutoff) {
+      jobs.delete(id);
+      owners.delete(id);
+    }
+  });
+}, CLEANUP_INTERVAL).unref();
+
+// Logs a pipeline step, and records it against the current job when there is one
+export function logStep(step: string, data?: any) {
+  const timestamp = new Date().toISOString();
+  const jobId = currentJobId();
+  console.log(`[${timestamp}]${jobId ? ` [job ${jobId}]` : ""} ${step}`);
+  if (data) {
+    console.log(JSON.stringify(data, null, 2));
+  }
+  if (jobId) {
+    addJobStep(jobId, step);
+  }
+}
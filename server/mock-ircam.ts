@@ -0,0 +1,248 @@
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import { createHash, randomUUID } from "crypto";
+import type { Server } from "http";
+import { log } from "./vite";
+import { ircamClientOptionsFromEnv, type IrcamClientOptions } from "./ircam";
+import { STEMS, type Stem } from "@shared/stems";
+
+// A stand-in for the IRCAM Amplify OAuth, storage, stem separator and AI detector APIs, so the
+// whole upload flow can run offline. Enabled with IRCAM_MOCK=true.
+//
+// Verdicts are derived from a SHA-256 of the uploaded bytes, so the same file
+// always gets the same result. Separated stems are stored files named after their track, hashed
+// from the track's hash and the stem. File names can force a behaviour instead:
+//   [mock:ai] / [mock:human]  fixed verdict
+//   [mock:slow]               takes 10x longer than IRCAM_MOCK_DELAY_MS
+//   [mock:error]              detector reports the job as failed
+//   [mock:timeout]            job never leaves "processing"
+
+// Types
+interface StoredFile {
+  id: string;
+  fileName?: string;
+  size: number;
+  sha256?: string;
+}
+
+interface DetectionJob {
+  id: string;
+  files: StoredFile[];
+  createdAt: number;
+}
+
+interface SeparationJob {
+  id: string;
+  file: StoredFile;
+  stems?: Record<Stem, string>;
+  createdAt: number;
+}
+
+type MockBehaviour = "ai" | "human" | "slow" | "error" | "timeout";
+
+// Constants
+export const MOCK_IRCAM_PORT = Number(process.env.IRCAM_MOCK_PORT) || 5050;
+const MOCK_DELAY = Number(process.env.IRCAM_MOCK_DELAY_MS) || 3000;
+const MOCK_TOKEN_TTL = 60 * 60; // 1 hour, in seconds
+const QUEUED_SHARE = 0.3; // Share of the delay spent "pending" before "processing"
+
+export function isIrcamMockEnabled() {
+  return process.env.IRCAM_MOCK === "true" || process.env.IRCAM_MOCK === "1";
+}
+
+// Client options pointing at the mock server; credentials are optional since any are accepted
+export function mockIrcamClientOptions(logStep?: IrcamClientOptions["log"]): IrcamClientOptions {
+  const baseUrl = `http://127.0.0.1:${MOCK_IRCAM_PORT}`;
+  const options = ircamClientOptionsFromEnv(logStep);
+  return {
+    ...options,
+    clientId: options.clientId || "mock-client",
+    clientSecret: options.clientSecret || "mock-secret",
+    apiBaseUrl: `${baseUrl}/api`,
+    storageBaseUrl: `${baseUrl}/storage`
+  };
+}
+
+export function createMockIrcamApp(): Express {
+  const app = express();
+  const tokens = new Set<string>();
+  const files = new Map<string, StoredFile>();
+  const jobs = new Map<string, DetectionJob>();
+  const separations = new Map<string, SeparationJob>();
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.replace(/^Bearer /, "");
+    if (!token || !tokens.has(token) || isExpired(token)) {
+      return res.status(401).json({ message: "Invalid or expired token" });
+    }
+    next();
+  };
+
+  app.post("/api/oauth/token", express.json(), (req, res) => {
+    if (!req.body?.client_id || !req.body?.client_secret) {
+      return res.status(401).json({ message: "Missing client credentials" });
+    }
+    const token = createMockJwt(MOCK_TOKEN_TTL);
+    tokens.add(token);
+    res.json({ id_token: token, token_type: "Bearer", expires_in: MOCK_TOKEN_TTL });
+  });
+
+  app.post("/storage/manager", requireToken, (_req, res) => {
+    const file: StoredFile = { id: randomUUID(), size: 0 };
+    files.set(file.id, file);
+    res.json({ id: file.id });
+  });
+
+  app.get("/storage/manager/:id", requireToken, (req, res) => {
+    const file = files.get(req.params.id);
+    if (!file || !file.sha256) {
+      return res.status(404).json({ message: "File not found" });
+    }
+    res.json({ id: file.id, ias: `ias://mock/${file.id}` });
+  });
+
+  // Only the hash of the upload is kept, so large files do not pile up in memory
+  app.put("/storage/:id/:fileName", requireToken, (req, res) => {
+    const file = files.get(req.params.id);
+    if (!file) {
+      return res.status(404).json({ message: "Storage location not found" });
+    }
+
+    const hash = createHash("sha256");
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      hash.update(chunk);
+      size += chunk.length;
+    });
+    req.on("end", () => {
+      Object.assign(file, { fileName: req.params.fileName, size, sha256: hash.digest("hex") });
+      res.status(201).end();
+    });
+  });
+
+  app.post("/api/stemseparator", requireToken, express.json(), (req, res) => {
+    const file = files.get(String(req.body?.audioUrl).replace("ias://mock/", ""));
+    if (!file?.sha256) {
+      return res.status(400).json({ message: "Unknown audio URL" });
+    }
+
+    const job: SeparationJob = { id: randomUUID(), file, createdAt: Date.now() };
+    separations.set(job.id, job);
+    res.json({ id: job.id });
+  });
+
+  app.get("/api/stemseparator/:id", requireToken, (req, res) => {
+    const job = separations.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    const status = mockJobStatus(job.createdAt, [fileBehaviour(job.file)]);
+    if (status !== "success") {
+      return res.json({ job_infos: { job_status: status } });
+    }
+
+    // The stems are stored once, the first time the job is seen finished
+    job.stems ??= Object.fromEntries(STEMS.map((stem) => {
+      const stemFile: StoredFile = {
+        id: randomUUID(),
+        fileName: `${stem}-${job.file.fileName}`,
+        size: Math.round(job.file.size / STEMS.length),
+        sha256: createHash("sha256").update(`${job.file.sha256}:${stem}`).digest("hex")
+      };
+      files.set(stemFile.id, stemFile);
+      return [stem, `ias://mock/${stemFile.id}`];
+    })) as Record<Stem, string>;
+
+    res.json({
+      job_infos: {
+        job_status: "success",
+        report_info: {
+          report: { stems: job.stems }
+        }
+      }
+    });
+  });
+
+  app.post("/api/aidetector", requireToken, express.json(), (req, res) => {
+    const urls: unknown = req.body?.audioUrlList;
+    if (!Array.isArray(urls) || urls.length === 0) {
+      return res.status(400).json({ message: "audioUrlList must be a non-empty array" });
+    }
+
+    const jobFiles = urls.map((url) => files.get(String(url).replace("ias://mock/", "")));
+    if (jobFiles.some((file) => !file?.sha256)) {
+      return res.status(400).json({ message: "Unknown audio URL" });
+    }
+
+    const job: DetectionJob = { id: randomUUID(), files: jobFiles as StoredFile[], createdAt: Date.now() };
+    jobs.set(job.id, job);
+    res.json({ id: job.id });
+  });
+
+  app.get("/api/aidetector/:id", requireToken, (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    const status = mockJobStatus(job.createdAt, job.files.map(fileBehaviour));
+    if (status !== "success") {
+      return res.json({ job_infos: { job_status: status } });
+    }
+
+    res.json({
+      job_infos: {
+        job_status: "success",
+        report_info: {
+          report: { resultList: job.files.map(mockVerdict) }
+        }
+      }
+    });
+  });
+
+  return app;
+}
+
+export function startMockIrcamServer(port = MOCK_IRCAM_PORT): Server {
+  return createMockIrcamApp().listen(port, "127.0.0.1", () => {
+    log(`Mock IRCAM Amplify API running on port ${port}`, "mock-ircam");
+  });
+}
+
+// Where a job created at `createdAt` stands, given the behaviours forced by its files
+function mockJobStatus(createdAt: number, behaviours: (MockBehaviour | undefined)[]) {
+  const delay = behaviours.includes("slow") ? MOCK_DELAY * 10 : MOCK_DELAY;
+  const elapsed = Date.now() - createdAt;
+
+  if (elapsed < delay * QUEUED_SHARE) {
+    return "pending";
+  }
+  if (elapsed < delay || behaviours.includes("timeout")) {
+    return "processing";
+  }
+  return behaviours.includes("error") ? "error" : "success";
+}
+
+function fileBehaviour(file: StoredFile): MockBehaviour | undefined {
+  const match = file.fileName?.match(/\[mock:(ai|human|slow|error|timeout)\]/i);
+  return match?.[1].toLowerCase() as MockBehaviour | undefined;
+}
+
+function mockVerdict(file: StoredFile) {
+  const digest = Buffer.from(file.sha256!, "hex");
+  const behaviour = fileBehaviour(file);
+  const isAi = behaviour === "ai" ? true : behaviour === "human" ? false : digest[0] >= 128;
+  return { isAi, confidence: 50 + (digest[1] % 50) };
+}
+
+// Unsigned, but shaped like a real JWT so the token manager can read its `exp`
+function createMockJwt(ttlSeconds: number) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode({ sub: "mock-client", exp, jti: randomUUID() })}.`;
+}
+
+function isExpired(token: string) {
+  const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString("utf8"));
+  return payload.exp * 1000 < Date.now();
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { assertPublicUrl, isPublicAddress } from "./outbound";
+import { BlockedAddressError } from "./errors";
+
+describe("isPublicAddress", () => {
+  it("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+
+  it("refuses loopback, private, link-local and reserved addresses", () => {
+    const addresses = [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "255.255.255.255",
+      "::1",
+      "::",
+      "fd00::1",
+      "fe80::1",
+      "64:ff9b::a00:1"
+    ];
+    for (const address of addresses) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("refuses IPv4-mapped IPv6 addresses of reserved IPv4 addresses", () => {
+    for (const address of ["::ffff:127.0.0.1", "::ffff:7f00:1", "::ffff:169.254.169.254", "::ffff:10.0.0.1"]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("refuses anything that is not an address", () => {
+    expect(isPublicAddress("localhost")).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("accepts a URL with a public address", async () => {
+    await expect(assertPublicUrl("https://8.8.8.8/track.mp3")).resolves.toBeUndefined();
+  });
+
+  it("refuses URLs with reserved addresses, however they are written", async () => {
+    const urls = [
+      "http://127.0.0.1/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://2130706433/" // 127.0.0.1 as a single number
+    ];
+    for (const url of urls) {
+      await expect(assertPublicUrl(url), url).rejects.toThrow(BlockedAddressError);
+    }
+  });
+
+  it("refuses a name that resolves to a reserved address", async () => {
+    await expect(assertPublicUrl("http://localhost:5000/audio.wav")).rejects.toThrow(BlockedAddressError);
+  });
+});
@@ -0,0 +1,95 @@
+import { BlockList, isIP } from "net";
+import { lookup as dnsLookup } from "dns/promises";
+import type { AxiosRequestConfig } from "axios";
+import { BlockedAddressError } from "./errors";
+
+// Requests to URLs that users hand us (remote audio, webhooks) must not reach the server's own
+// network: loopback, private, link-local (cloud metadata) and other reserved addresses are refused.
+// Names are checked as they are resolved for every connection, redirects included, so a name that
+// resolves elsewhere by the time the request is made gains nothing.
+
+// Constants
+const reservedRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4] // Reserved, including broadcast
+] as const) {
+  reservedRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 96], // Unspecified, loopback and IPv4-compatible
+  ["64:ff9b::", 96], // NAT64, which can reach private IPv4 addresses
+  ["100::", 64], // Discard
+  ["2001:db8::", 32], // Documentation
+  ["2002::", 16], // 6to4, which can embed private IPv4 addresses
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["fec0::", 10], // Site-local
+  ["ff00::", 8] // Multicast
+] as const) {
+  reservedRanges.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges
+export function isPublicAddress(address: string) {
+  const family = isIP(address);
+  return family !== 0 && !reservedRanges.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Hosts written as an address are connected to without a lookup, so they are checked up front
+function assertPublicHost(hostname: string) {
+  const address = hostname.replace(/^\[(.*)\]$/, "$1");
+  if (isIP(address) && !isPublicAddress(address)) {
+    throw new BlockedAddressError(hostname);
+  }
+}
+
+async function publicLookup(hostname: string) {
+  const addresses = await dnsLookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new BlockedAddressError(hostname, blocked.address);
+  }
+  return addresses;
+}
+
+// Rejects a URL whose host is, or resolves to, an address that is not public. Requests made with
+// publicRequestConfig are checked anyway; this gives an early, clear answer when a URL is submitted.
+// A name that does not resolve is let through, since requests to it fail on their own.
+export async function assertPublicUrl(url: string) {
+  const { hostname } = new URL(url);
+  assertPublicHost(hostname);
+  if (isIP(hostname.replace(/^\[(.*)\]$/, "$1"))) {
+    return;
+  }
+  try {
+    await publicLookup(hostname);
+  } catch (error) {
+    if (error instanceof BlockedAddressError) {
+      throw error;
+    }
+  }
+}
+
+// Axios options for a request to a user-supplied URL, checking the host of every hop
+export function publicRequestConfig(url: string): AxiosRequestConfig {
+  assertPublicHost(new URL(url).hostname);
+  return {
+    lookup: async (hostname: string) => [
+      (await publicLookup(hostname)).map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 }))
+    ],
+    beforeRedirect: (options: Record<string, any>) => assertPublicHost(options.hostname)
+  };
+}
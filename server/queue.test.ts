@@ -0,0 +1,80 @@
+import { randomUUID } from "crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "@db";
+import { analysisJobs, uploads } from "@db/schema";
+import { createTestApp } from "./test/helpers";
+
+let app: Express;
+let agent: ReturnType<typeof request.agent>;
+let userId: number;
+
+beforeAll(async () => {
+  app = createTestApp();
+  agent = request.agent(app);
+  const user = await agent.post("/api/register").send({ email: "queue@example.com", password: "correct horse" });
+  expect(user.status).toBe(201);
+  userId = user.body.id;
+});
+
+// A job another server process has claimed and is running: only its rows are shared
+async function runningElsewhere(fileName: string) {
+  const id = randomUUID();
+  await db.insert(analysisJobs).values({
+    id,
+    status: "running",
+    sessionId: "another-session",
+    userId,
+    heartbeatAt: new Date(),
+    deadlineAt: new Date(Date.now() + 60 * 60 * 1000)
+  });
+  const [upload] = await db.insert(uploads).values({
+    sessionId: "another-session",
+    ipAddress: "127.0.0.1",
+    userId,
+    jobId: id,
+    fileName,
+    status: "analyzing"
+  }).returning();
+  return { id, uploadId: upload.id };
+}
+
+describe("jobs run by another process", () => {
+  it("reports their progress and result from the database", async () => {
+    const { id, uploadId } = await runningElsewhere("elsewhere.wav");
+
+    const running = await agent.get(`/api/jobs/${id}`);
+    expect(running.status).toBe(200);
+    expect(running.body).toMatchObject({ stage: "analyzing", tracks: [{ uploadId, fileName: "elsewhere.wav" }] });
+
+    await db.update(uploads)
+      .set({ status: "done", isAi: true, confidenceScore: "91", completedAt: new Date() })
+      .where(eq(uploads.id, uploadId));
+    await db.update(analysisJobs).set({ status: "done", finishedAt: new Date() }).where(eq(analysisJobs.id, id));
+
+    const done = await agent.get(`/api/jobs/${id}`);
+    expect(done.status).toBe(200);
+    expect(done.body).toMatchObject({ stage: "done", tracks: [{ uploadId, result: { isAi: true, confidence: 91 } }] });
+  });
+
+  it("hides them from other visitors", async () => {
+    const { id } = await runningElsewhere("private elsewhere.wav");
+
+    const response = await request.agent(app).get(`/api/jobs/${id}`);
+    expect(response.status).toBe(404);
+  });
+
+  it("marks them cancelled, for their worker to stop", async () => {
+    const { id, uploadId } = await runningElsewhere("cancelled elsewhere.wav");
+
+    const response = await agent.delete(`/api/jobs/${id}`);
+    expect(response.status).toBe(202);
+
+    const [row] = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    expect(row).toMatchObject({ status: "cancelled", error: "Cancelled by user" });
+    const [upload] = await db.select().from(uploads).where(eq(uploads.id, uploadId));
+    expect(upload.status).toBe("cancelled");
+  });
+});
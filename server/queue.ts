@@ -0,0 +1,469 @@
+import { randomUUID } from "crypto";
+import { copyFile, mkdir, rename, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { and, asc, eq, inArray, lt, sql } from "drizzle-orm";
+import { db } from "@db";
+import { analysisJobs, uploads, type InsertUpload, type SelectAnalysisJob, type SelectUpload } from "@db/schema";
+import {
+  abortJob,
+  cancelJob,
+  createJob,
+  getJob,
+  isTerminalStage,
+  jobSignal,
+  listUnfinishedJobIds,
+  updateJob,
+  type AnalysisResult,
+  type Job,
+  type JobOwner,
+  type JobStage,
+  type JobTrack
+} from "./jobs";
+import { JobExpiredError } from "./errors";
+import { listJobUploads } from "./uploads";
+import type { Identity } from "./quotas";
+import { log } from "./vite";
+
+// Durable queue behind every analysis job. A job, its uploads and its audio are stored before
+// anything runs, then workers claim pending jobs from Postgres, so a deploy or crash only pauses
+// them. A job that had already been submitted to IRCAM resumes polling its detection job instead
+// of uploading again. The in-memory job (see jobs.ts) is only the live view for its owner. Any
+// process may run a job, so the one its owner follows it from reads back what the job's rows
+// say while another process runs it, and cancels it through its row.
+
+// Types
+export type QueueStatus = "pending" | "running" | "done" | "failed" | "cancelled";
+
+// One track of a new job: uploaded audio comes as a received file, which the queue takes over,
+// remote audio as its URL
+export interface QueuedFile {
+  fileName: string;
+  fileSize?: number;
+  mimeType?: string;
+  path?: string;
+  sourceUrl?: string;
+  audio?: Pick<InsertUpload, "duration" | "sampleRate" | "channels" | "bitrate">;
+}
+
+export interface JobOptions {
+  callbackUrl?: string;
+  // Skip earlier verdicts for the same audio and have every track analyzed again
+  force?: boolean;
+  // Analyze every track window by window, with a verdict for each (see segments.ts)
+  segmented?: boolean;
+  // Separate every track into stems and have each of them analyzed as well (see ircam.ts)
+  stems?: boolean;
+}
+
+type JobRunner = (row: SelectAnalysisJob) => Promise<void>;
+
+// Constants
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 3;
+const JOB_DEADLINE = Number(process.env.JOB_DEADLINE_MS) || 2 * 60 * 60 * 1000; // 2 hours
+const JOB_STORAGE_DIR = process.env.JOB_STORAGE_DIR || path.join(os.tmpdir(), "ai-music-detector", "jobs");
+const POLL_INTERVAL = 5 * 1000; // 5 seconds
+const HEARTBEAT_INTERVAL = 20 * 1000; // 20 seconds
+// A running job whose worker has not checked in for this long is assumed lost with its process
+const STALE_HEARTBEAT = 90 * 1000; // 90 seconds
+const SWEEP_INTERVAL = 60 * 1000; // 1 minute
+// How often jobs followed here but run by another process are read back from the database
+const SYNC_INTERVAL = 2 * 1000; // 2 seconds
+
+let runner: JobRunner | undefined;
+// Jobs this process is running, with their deadlines
+const runningJobs = new Map<string, Date>();
+let claiming = false;
+let claimRequested = false;
+
+// Stores a new job and its tracks, then wakes the workers. The returned in-memory job
+// starts out "pending" until a worker picks it up.
+export async function enqueueJob(identity: Identity, files: QueuedFile[], options: JobOptions = {}): Promise<Job> {
+  const id = randomUUID();
+  const storagePaths = await stageFiles(id, files);
+
+  let records: SelectUpload[];
+  try {
+    records = await db.transaction(async (tx) => {
+      await tx.insert(analysisJobs).values({
+        id,
+        sessionId: identity.sessionId,
+        userId: identity.userId,
+        workspaceId: identity.workspaceId,
+        apiKeyId: identity.apiKeyId,
+        callbackUrl: options.callbackUrl,
+        force: options.force,
+        segmented: options.segmented,
+        stems: options.stems,
+        deadlineAt: new Date(Date.now() + JOB_DEADLINE)
+      });
+      return tx.insert(uploads).values(files.map((file, index) => ({
+        ...identity,
+        jobId: id,
+        fileName: file.fileName,
+        fileSize: file.fileSize,
+        mimeType: file.mimeType,
+        ...file.audio,
+        sourceUrl: file.sourceUrl,
+        storagePath: storagePaths[index],
+        status: "pending"
+      }))).returning();
+    });
+  } catch (error) {
+    await removeStagedFiles(id);
+    throw error;
+  }
+
+  const job = trackJob(id, identity, records);
+  fillSlots();
+  return job;
+}
+
+// Puts a queued job back in memory, so its owner can follow and cancel it from this process
+export function restoreJob(row: SelectAnalysisJob, records: SelectUpload[]): Job {
+  return trackJob(row.id, {
+    sessionId: row.sessionId,
+    userId: row.userId ?? undefined,
+    workspaceId: row.workspaceId ?? undefined
+  }, records);
+}
+
+function trackJob(id: string, owner: JobOwner, records: SelectUpload[]) {
+  const existing = getJob(id);
+  if (existing) {
+    return existing;
+  }
+
+  const stage = (records[0]?.status ?? "pending") as JobStage;
+  const tracks = records.map((record) => ({ uploadId: record.id, fileName: record.fileName }));
+  const job = createJob(tracks, owner, stage, id);
+
+  // A job running here is settled by its worker. One that is still waiting never reaches a
+  // worker, and one running in another process is stopped there through its row (see
+  // sendHeartbeats), so both are settled here.
+  const signal = jobSignal(id);
+  signal.addEventListener("abort", () => {
+    if (runningJobs.has(id)) {
+      return;
+    }
+    cancelQueuedJob(id, signal.reason?.message || "Job was cancelled").catch((error: any) => {
+      console.error('Job cancel error:', { jobId: id, error: error.message });
+    });
+  }, { once: true });
+  return job;
+}
+
+async function cancelQueuedJob(id: string, reason: string) {
+  const [row] = await db.update(analysisJobs)
+    .set({ status: "cancelled", error: reason, finishedAt: new Date() })
+    .where(and(eq(analysisJobs.id, id), inArray(analysisJobs.status, ["pending", "running"])))
+    .returning();
+  if (row) {
+    await settleJob(row, "cancelled", reason);
+  }
+}
+
+// Ends a job that no worker is running: its uploads, its in-memory state and its staged audio
+async function settleJob(row: SelectAnalysisJob, stage: "failed" | "cancelled", error: string) {
+  await db.update(uploads)
+    .set({ status: stage, errorReason: error, completedAt: new Date() })
+    .where(eq(uploads.jobId, row.id));
+  if (!getJob(row.id)) {
+    restoreJob(row, await listJobUploads(row.id));
+  }
+  updateJob(row.id, { stage, error });
+  await removeStagedFiles(row.id);
+}
+
+// Records the IRCAM detection job as soon as it exists, so a restarted worker can resume polling it
+export async function setIrcamJobId(id: string, ircamJobId: string) {
+  await db.update(analysisJobs).set({ ircamJobId }).where(eq(analysisJobs.id, id));
+}
+
+// Called by the worker when its job ends. A job that was meanwhile given up on stays as it is.
+export async function finishJob(id: string, status: Exclude<QueueStatus, "pending" | "running">, error?: string) {
+  try {
+    await db.update(analysisJobs)
+      .set({ status, error, finishedAt: new Date() })
+      .where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, "running")));
+  } catch (dbError: any) {
+    console.error('Job finish error:', { jobId: id, error: dbError.message });
+  }
+  await removeStagedFiles(id);
+}
+
+// Uploaded audio is kept on disk until the job ends, since a restarted worker has to send it again
+async function stageFiles(id: string, files: QueuedFile[]) {
+  return Promise.all(files.map(async (file, index) => {
+    if (!file.path) {
+      return null;
+    }
+    const storagePath = await stagingPath(id, String(index));
+    await moveFile(file.path, storagePath);
+    return storagePath;
+  }));
+}
+
+// Where a job keeps a file of its own; everything there is deleted when the job ends
+export async function stagingPath(id: string, name: string) {
+  const directory = path.join(JOB_STORAGE_DIR, id);
+  await mkdir(directory, { recursive: true });
+  return path.join(directory, name);
+}
+
+// Received files are usually on the same disk as the job storage, but need not be
+async function moveFile(from: string, to: string) {
+  try {
+    await rename(from, to);
+  } catch (error: any) {
+    if (error.code !== "EXDEV") {
+      throw error;
+    }
+    await copyFile(from, to);
+    await rm(from, { force: true });
+  }
+}
+
+async function removeStagedFiles(id: string) {
+  try {
+    await rm(path.join(JOB_STORAGE_DIR, id), { recursive: true, force: true });
+  } catch (error: any) {
+    console.error('Staged file cleanup error:', { jobId: id, error: error.message });
+  }
+}
+
+// Takes the oldest pending job. SKIP LOCKED lets several processes claim from the same queue.
+async function claimNextJob() {
+  const next = db.select({ id: analysisJobs.id })
+    .from(analysisJobs)
+    .where(eq(analysisJobs.status, "pending"))
+    .orderBy(asc(analysisJobs.createdAt))
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [row] = await db.update(analysisJobs)
+    .set({
+      status: "running",
+      attempts: sql`${analysisJobs.attempts} + 1`,
+      startedAt: sql`coalesce(${analysisJobs.startedAt}, now())`,
+      heartbeatAt: new Date()
+    })
+    .where(and(inArray(analysisJobs.id, next), eq(analysisJobs.status, "pending")))
+    .returning();
+  return row as SelectAnalysisJob | undefined;
+}
+
+// Claims pending jobs until every worker slot is busy or the queue is empty
+async function fillSlots() {
+  if (!runner) {
+    return;
+  }
+  if (claiming) {
+    claimRequested = true;
+    return;
+  }
+
+  claiming = true;
+  try {
+    while (runningJobs.size < JOB_CONCURRENCY) {
+      const row = await claimNextJob();
+      if (!row) {
+        break;
+      }
+      runClaimedJob(row);
+    }
+  } catch (error: any) {
+    console.error('Job claim error:', { error: error.message });
+  } finally {
+    claiming = false;
+  }
+
+  if (claimRequested) {
+    claimRequested = false;
+    fillSlots();
+  }
+}
+
+function runClaimedJob(row: SelectAnalysisJob) {
+  runningJobs.set(row.id, row.deadlineAt);
+  runner!(row)
+    .catch((error: any) => {
+      console.error('Job worker error:', { jobId: row.id, error: error.message });
+    })
+    .finally(() => {
+      runningJobs.delete(row.id);
+      fillSlots();
+    });
+}
+
+// Also stops the jobs that were cancelled from another process while they ran here
+async function sendHeartbeats() {
+  if (runningJobs.size === 0) {
+    return;
+  }
+  try {
+    const ids = Array.from(runningJobs.keys());
+    await db.update(analysisJobs)
+      .set({ heartbeatAt: new Date() })
+      .where(inArray(analysisJobs.id, ids));
+    const cancelled = await db.select({ id: analysisJobs.id, error: analysisJobs.error })
+      .from(analysisJobs)
+      .where(and(inArray(analysisJobs.id, ids), eq(analysisJobs.status, "cancelled")));
+    for (const row of cancelled) {
+      cancelJob(row.id, row.error ?? undefined);
+    }
+  } catch (error: any) {
+    console.error('Job heartbeat error:', { error: error.message });
+  }
+}
+
+// Brings the in-memory view of jobs that this process is not running up to date with their rows,
+// loading the ones it does not know yet. Jobs running here are left to their worker, and their
+// pipeline steps are only known to the process running them.
+export async function refreshJobs(ids: string[]) {
+  const elsewhere = ids.filter((id) => !runningJobs.has(id));
+  if (elsewhere.length === 0) {
+    return;
+  }
+  const rows = await db.select().from(analysisJobs).where(inArray(analysisJobs.id, elsewhere));
+  if (rows.length === 0) {
+    return;
+  }
+  const records = await db.select().from(uploads)
+    .where(inArray(uploads.jobId, rows.map((row) => row.id)))
+    .orderBy(asc(uploads.id));
+  const similarIds = records.flatMap((record) => (record.similarToId === null ? [] : [record.similarToId]));
+  const similar = similarIds.length === 0
+    ? []
+    : await db.select().from(uploads).where(inArray(uploads.id, similarIds));
+
+  for (const row of rows) {
+    // Claimed by a worker here in the meantime
+    if (runningJobs.has(row.id)) {
+      continue;
+    }
+    const known = getJob(row.id);
+    if (known && isTerminalStage(known.stage)) {
+      continue;
+    }
+    const jobRecords = records.filter((record) => record.jobId === row.id);
+    const job = known ?? restoreJob(row, jobRecords);
+    const state = jobState(row, jobRecords, similar);
+    if (JSON.stringify(state) !== JSON.stringify({ stage: job.stage, error: job.error, tracks: job.tracks })) {
+      updateJob(row.id, state);
+    }
+  }
+}
+
+// What a job's rows say about it: its stage is the queue's status once it has finished or while
+// it waits, and otherwise the stage its tracks were last moved to
+function jobState(row: SelectAnalysisJob, records: SelectUpload[], similar: SelectUpload[]) {
+  let stage = row.status as JobStage;
+  if (row.status === "running") {
+    const current = records.find((record) => record.status !== "done");
+    stage = (current?.status ?? "analyzing") as JobStage;
+  }
+
+  const tracks = records.map((record): JobTrack => {
+    const track: JobTrack = { uploadId: record.id, fileName: record.fileName };
+    if (record.isAi !== null && record.confidenceScore !== null) {
+      const result: AnalysisResult = { isAi: record.isAi, confidence: Number(record.confidenceScore) };
+      if (record.cachedFromId !== null && record.cachedAnalyzedAt !== null) {
+        result.cachedFrom = { uploadId: record.cachedFromId, analyzedAt: record.cachedAnalyzedAt.toISOString() };
+      }
+      if (record.segments) {
+        result.segments = record.segments;
+      }
+      if (record.stems) {
+        result.stems = record.stems;
+      }
+      track.result = result;
+    }
+    const match = similar.find((other) => other.id === record.similarToId);
+    if (match && match.isAi !== null && record.similarity !== null) {
+      track.similarTo = {
+        uploadId: match.id,
+        fileName: match.fileName,
+        similarity: record.similarity,
+        isAi: match.isAi,
+        confidence: Number(match.confidenceScore),
+        analyzedAt: (match.completedAt ?? match.createdAt).toISOString()
+      };
+    }
+    return track;
+  });
+
+  return { stage, error: row.error ?? undefined, tracks };
+}
+
+async function syncJobs() {
+  try {
+    await refreshJobs(listUnfinishedJobIds());
+  } catch (error: any) {
+    console.error('Job sync error:', { error: error.message });
+  }
+}
+
+// Requeues jobs whose worker died, and gives up on jobs past their deadline: running ones
+// here are aborted, waiting ones are failed directly. Other processes expire their own.
+async function sweepStaleJobs() {
+  try {
+    const now = Date.now();
+    const requeued = await db.update(analysisJobs)
+      .set({ status: "pending" })
+      .where(and(
+        eq(analysisJobs.status, "running"),
+        lt(analysisJobs.heartbeatAt, new Date(now - STALE_HEARTBEAT))
+      ))
+      .returning({ id: analysisJobs.id });
+    if (requeued.length > 0) {
+      log(`Requeued ${requeued.length} job(s) whose worker stopped responding`, "queue");
+    }
+
+    runningJobs.forEach((deadlineAt, id) => {
+      if (deadlineAt.getTime() < now) {
+        abortJob(id, new JobExpiredError(JOB_DEADLINE));
+      }
+    });
+
+    const expired = await db.update(analysisJobs)
+      .set({ status: "failed", error: new JobExpiredError(JOB_DEADLINE).message, finishedAt: new Date(now) })
+      .where(and(eq(analysisJobs.status, "pending"), lt(analysisJobs.deadlineAt, new Date(now))))
+      .returning();
+    for (const row of expired) {
+      await settleJob(row, "failed", row.error!);
+    }
+
+    if (requeued.length > 0) {
+      fillSlots();
+    }
+  } catch (error: any) {
+    console.error('Job sweep error:', { error: error.message });
+  }
+}
+
+// Starts this process' workers. Jobs left unfinished by a previous run are loaded back into
+// memory first, so their owners can follow them again once a worker resumes them.
+export async function startJobWorkers(run: JobRunner) {
+  runner = run;
+
+  try {
+    const unfinished = await db.select().from(analysisJobs)
+      .where(inArray(analysisJobs.status, ["pending", "running"]));
+    for (const row of unfinished) {
+      restoreJob(row, await listJobUploads(row.id));
+    }
+    if (unfinished.length > 0) {
+      log(`Restored ${unfinished.length} unfinished job(s)`, "queue");
+    }
+  } catch (error: any) {
+    console.error('Job restore error:', { error: error.message });
+  }
+
+  setInterval(fillSlots, POLL_INTERVAL).unref();
+  setInterval(sendHeartbeats, HEARTBEAT_INTERVAL).unref();
+  setInterval(sweepStaleJobs, SWEEP_INTERVAL).unref();
+  setInterval(syncJobs, SYNC_INTERVAL).unref();
+  await sweepStaleJobs();
+  await fillSlots();
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { db } from "@db";
+import { uploads } from "@db/schema";
+import { getQuotaStatus, type Identity } from "./quotas";
+
+// Ten minutes of audio per session and day, read when quotas.ts is loaded
+vi.hoisted(() => {
+  process.env.UPLOAD_QUOTAS = JSON.stringify([{ scope: "session", period: "day", maxMinutes: 10 }]);
+});
+
+let sessionCount = 0;
+
+// A visitor of their own, with earlier uploads of the given lengths in seconds
+async function visitorWith(...tracks: { duration: number; status?: string }[]): Promise<Identity> {
+  const identity = { sessionId: `quota-session-${sessionCount++}`, ipAddress: "203.0.113.7" };
+  if (tracks.length > 0) {
+    await db.insert(uploads).values(tracks.map(({ duration, status = "done" }, index) => ({
+      ...identity,
+      fileName: `track-${index}.wav`,
+      duration,
+      status
+    })));
+  }
+  return identity;
+}
+
+describe("getQuotaStatus", () => {
+  it("counts the minutes of earlier uploads against the quota", async () => {
+    const identity = await visitorWith({ duration: 120 }, { duration: 180 });
+
+    const status = await getQuotaStatus(identity);
+    expect(status.quotas[0]).toMatchObject({ usedUploads: 2, usedMinutes: 5, remainingMinutes: 5 });
+    expect(status).toMatchObject({ allowed: true, remainingMinutes: 5, remainingUploads: null, resetAt: null });
+  });
+
+  it("rounds the minutes used to a tenth", async () => {
+    const identity = await visitorWith({ duration: 125 });
+
+    const status = await getQuotaStatus(identity);
+    expect(status.quotas[0]).toMatchObject({ usedMinutes: 2.1, remainingMinutes: 7.9 });
+  });
+
+  it("leaves out failed and cancelled uploads", async () => {
+    const identity = await visitorWith(
+      { duration: 120 },
+      { duration: 300, status: "failed" },
+      { duration: 300, status: "cancelled" }
+    );
+
+    const status = await getQuotaStatus(identity);
+    expect(status.quotas[0]).toMatchObject({ usedUploads: 1, usedMinutes: 2 });
+  });
+
+  it("allows new audio only when its minutes fit in what is left", async () => {
+    const identity = await visitorWith({ duration: 360 });
+
+    expect((await getQuotaStatus(identity, 1, 4)).allowed).toBe(true);
+    expect((await getQuotaStatus(identity, 1, 4.5)).allowed).toBe(false);
+  });
+
+  it("allows audio of unknown length while any time is left", async () => {
+    const identity = await visitorWith({ duration: 590 });
+
+    expect((await getQuotaStatus(identity, 1)).allowed).toBe(true);
+  });
+
+  it("refuses everything once the minutes are used up, until the next day", async () => {
+    const identity = await visitorWith({ duration: 400 }, { duration: 400 });
+
+    const status = await getQuotaStatus(identity, 1);
+    expect(status).toMatchObject({ allowed: false, remainingMinutes: 0 });
+    const tomorrow = new Date();
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    expect(status.resetAt).toBe(tomorrow.toISOString());
+  });
+});
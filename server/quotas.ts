@@ -0,0 +1,190 @@
+import type { NextFunction, Request, Response } from "express";
+import { and, count, eq, gte, notInArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { uploads } from "@db/schema";
+import { QuotaExceededError } from "./errors";
+
+// Types
+export type QuotaScope = "session" | "ip" | "account";
+export type QuotaPeriod = "day" | "month";
+
+export interface Identity {
+  sessionId: string;
+  ipAddress: string;
+  userId?: number;
+  workspaceId?: number;
+  apiKeyId?: number;
+}
+
+export interface QuotaRule {
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  maxUploads?: number;
+  maxMinutes?: number;
+}
+
+export interface QuotaUsage extends QuotaRule {
+  usedUploads: number;
+  usedMinutes: number;
+  remainingUploads: number | null;
+  remainingMinutes: number | null;
+  resetAt: string;
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  remainingUploads: number | null;
+  remainingMinutes: number | null;
+  resetAt: string | null;
+  quotas: QuotaUsage[];
+}
+
+// Constants
+const quotaRulesSchema = z.array(z.object({
+  scope: z.enum(["session", "ip", "account"]),
+  period: z.enum(["day", "month"]),
+  maxUploads: z.number().int().positive().optional(),
+  maxMinutes: z.number().positive().optional()
+}));
+
+const DEFAULT_QUOTAS: QuotaRule[] = [
+  { scope: "ip", period: "day", maxUploads: 50 }
+];
+
+// Failed and cancelled analyses do not use up any allowance
+const UNCOUNTED_STATUSES = ["failed", "cancelled"];
+
+export const quotaRules = loadQuotaRules();
+
+// UPLOAD_QUOTAS holds a JSON array of rules, e.g.
+// [{"scope":"ip","period":"day","maxUploads":20},{"scope":"session","period":"month","maxMinutes":120}]
+function loadQuotaRules(): QuotaRule[] {
+  if (!process.env.UPLOAD_QUOTAS) {
+    return DEFAULT_QUOTAS;
+  }
+  try {
+    return quotaRulesSchema.parse(JSON.parse(process.env.UPLOAD_QUOTAS));
+  } catch (error: any) {
+    throw new Error(`Invalid UPLOAD_QUOTAS: ${error.message}`);
+  }
+}
+
+// Works out what is left of every applicable quota, and whether `uploadCount` more uploads playing for
+// `minutes` in total fit in all of them. Before the audio has been inspected its length is unknown,
+// and any time left at all is enough. Account quotas only apply to logged-in users.
+export async function getQuotaStatus(identity: Identity, uploadCount = 0, minutes = 0): Promise<QuotaStatus> {
+  const rules = quotaRules.filter((rule) => rule.scope !== "account" || identity.userId !== undefined);
+  const quotas = await Promise.all(rules.map((rule) => getUsage(rule, identity)));
+
+  const allowed = quotas.every((quota) =>
+    (quota.remainingUploads === null || quota.remainingUploads >= uploadCount) &&
+    (quota.remainingMinutes === null || (minutes > 0 ? quota.remainingMinutes >= minutes : quota.remainingMinutes > 0))
+  );
+
+  const exhausted = quotas.filter((quota) => quota.remainingUploads === 0 || quota.remainingMinutes === 0);
+  const resetAt = exhausted.length > 0
+    ? exhausted.map((quota) => quota.resetAt).sort().reverse()[0]
+    : null;
+
+  return {
+    allowed,
+    remainingUploads: minOf(quotas.map((quota) => quota.remainingUploads)),
+    remainingMinutes: minOf(quotas.map((quota) => quota.remainingMinutes)),
+    resetAt,
+    quotas
+  };
+}
+
+// Throws a QuotaExceededError unless `uploadCount` more uploads playing for `minutes` fit in every quota
+export async function assertQuota(identity: Identity, uploadCount: number, minutes: number) {
+  const status = await getQuotaStatus(identity, uploadCount, minutes);
+  if (!status.allowed) {
+    throw new QuotaExceededError(status, minutes);
+  }
+}
+
+async function getUsage(rule: QuotaRule, identity: Identity): Promise<QuotaUsage> {
+  const periodStart = startOfPeriod(rule.period);
+  const scopeCondition = rule.scope === "session"
+    ? eq(uploads.sessionId, identity.sessionId)
+    : rule.scope === "ip"
+      ? eq(uploads.ipAddress, identity.ipAddress)
+      : eq(uploads.userId, identity.userId!);
+
+  const [{ usedUploads, usedSeconds }] = await db
+    .select({
+      usedUploads: count(),
+      usedSeconds: sql<number>`coalesce(sum(${uploads.duration}), 0)`.mapWith(Number)
+    })
+    .from(uploads)
+    .where(and(
+      scopeCondition,
+      gte(uploads.createdAt, periodStart),
+      notInArray(uploads.status, UNCOUNTED_STATUSES)
+    ));
+
+  const usedMinutes = Math.round((usedSeconds / 60) * 10) / 10;
+  return {
+    ...rule,
+    usedUploads,
+    usedMinutes,
+    remainingUploads: rule.maxUploads !== undefined ? Math.max(0, rule.maxUploads - usedUploads) : null,
+    remainingMinutes: rule.maxMinutes !== undefined ? Math.max(0, rule.maxMinutes - usedMinutes) : null,
+    resetAt: startOfNextPeriod(rule.period).toISOString()
+  };
+}
+
+// Periods are calendar days and months in UTC
+function startOfPeriod(period: QuotaPeriod, now = new Date()) {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function startOfNextPeriod(period: QuotaPeriod, now = new Date()) {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function minOf(values: (number | null)[]) {
+  const limited = values.filter((value): value is number => value !== null);
+  return limited.length > 0 ? Math.min(...limited) : null;
+}
+
+// Who a request counts against. Sessions are per browser; API clients are identified by their key,
+// which stands in for the session and acts as its creator in the key's workspace.
+export function identityOf(req: Request): Identity {
+  if (req.apiKey) {
+    return {
+      sessionId: `api-key:${req.apiKey.id}`,
+      ipAddress: req.ip ?? "unknown",
+      userId: req.apiKey.createdBy,
+      workspaceId: req.apiKey.workspaceId,
+      apiKeyId: req.apiKey.id
+    };
+  }
+  return {
+    sessionId: req.sessionID,
+    ipAddress: req.ip ?? "unknown",
+    userId: req.user?.id,
+    workspaceId: req.workspace?.id
+  };
+}
+
+// Rejects the request with 429 when `uploadCount` more uploads would exceed any quota
+export function enforceQuota(uploadCount: (req: Request) => number) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = await getQuotaStatus(identityOf(req), uploadCount(req));
+      if (!status.allowed) {
+        return res.status(429).json({ error: "Upload limit reached", quota: status });
+      }
+      next();
+    } catch (error: any) {
+      console.error('Quota check error:', { error: error.message });
+      res.status(500).json({ error: 'Could not check upload quota' });
+    }
+  };
+}
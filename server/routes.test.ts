@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type { Job } from "./jobs";
+import { createTestApp, waitFor, wavFile } from "./test/helpers";
+
+let app: Express;
+
+beforeAll(() => {
+  app = createTestApp();
+});
+
+// Uploads a file as an anonymous visitor and follows its job until it finishes
+async function analyze(fileName: string) {
+  const agent = request.agent(app);
+  const upload = await agent.post("/api/upload").attach("audio", wavFile(), fileName);
+  expect(upload.status).toBe(202);
+
+  const job = await waitFor(async () => {
+    const response = await agent.get(`/api/jobs/${upload.body.jobId}`);
+    expect(response.status).toBe(200);
+    const job: Job = response.body;
+    return ["done", "failed", "cancelled"].includes(job.stage) ? job : undefined;
+  });
+  return { agent, job };
+}
+
+describe("POST /api/upload", () => {
+  it("reports an AI verdict", async () => {
+    const { job } = await analyze("track [mock:ai].wav");
+
+    expect(job.stage).toBe("done");
+    expect(job.tracks).toHaveLength(1);
+    expect(job.tracks[0]).toMatchObject({ fileName: "track [mock:ai].wav", result: { isAi: true } });
+  });
+
+  it("reports a human verdict", async () => {
+    const { job } = await analyze("track [mock:human].wav");
+
+    expect(job.stage).toBe("done");
+    expect(job.tracks[0].result).toMatchObject({ isAi: false });
+    expect(job.tracks[0].result!.confidence).toBeGreaterThanOrEqual(50);
+  });
+
+  it("fails the job when the detector reports an error", async () => {
+    const { job } = await analyze("track [mock:error].wav");
+
+    expect(job.stage).toBe("failed");
+    expect(job.error).toMatch(/reported the job as error/);
+    expect(job.tracks[0].result).toBeUndefined();
+  });
+
+  it("fails the job when the detector never finishes", async () => {
+    const { job } = await analyze("track [mock:timeout].wav");
+
+    expect(job.stage).toBe("failed");
+    expect(job.error).toMatch(/did not finish/);
+  });
+
+  it("hides a job from other visitors", async () => {
+    const owner = request.agent(app);
+    const upload = await owner.post("/api/upload").attach("audio", wavFile(), "private [mock:human].wav");
+    expect(upload.status).toBe(202);
+
+    const response = await request.agent(app).get(`/api/jobs/${upload.body.jobId}`);
+    expect(response.status).toBe(404);
+  });
+
+  it("keeps where an upload came from and is stored out of the workspace history", async () => {
+    const agent = request.agent(app);
+    await agent.post("/api/register").send({ email: "history@example.com", password: "correct horse" });
+    const upload = await agent.post("/api/upload").attach("audio", wavFile(), "history [mock:ai].wav");
+    expect(upload.status).toBe(202);
+
+    const response = await agent.get("/api/analyses");
+    expect(response.status).toBe(200);
+    expect(response.body.items).toHaveLength(1);
+    expect(response.body.items[0]).toMatchObject({ fileName: "history [mock:ai].wav", uploadedBy: "history@example.com" });
+    for (const column of ["sessionId", "ipAddress", "storagePath", "contentHash", "fingerprint"]) {
+      expect(response.body.items[0]).not.toHaveProperty(column);
+    }
+  });
+
+  it("rejects a file that is not audio", async () => {
+    const response = await request.agent(app)
+      .post("/api/upload")
+      .attach("audio", Buffer.from("not audio at all"), "notes [mock:ai].wav");
+
+    expect(response.status).toBe(400);
+  });
+});
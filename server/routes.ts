@@ -1,48 +1,48 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import type { Server } from "http";
 import { createServer } from "http";
 import session from "express-session";
 import MemoryStore from "memorystore";
-import multer from "multer";
-import axios from "axios";
-
-// Types
-interface AnalysisResult {
-  isAi: boolean;
-  confidence: number;
-}
-
-interface IRCAMResponse {
-  job_infos: {
-    job_status: string;
-    report_info?: {
-      report: {
-        resultList: AnalysisResult[];
-      };
-    };
-  };
-}
+import {
+  cancelJob,
+  getJob,
+  isJobOwner,
+  isTerminalStage,
+  subscribeToJob
+} from "./jobs";
+import {
+  analysisOptionsSchema,
+  analyzeUrlSchema,
+  audioUpload,
+  checkAnalysisModes,
+  MAX_BATCH_FILES,
+  startAnalysisWorkers,
+  startJob,
+  startUrlJob,
+  uploadSlot
+} from "./analysis";
+import { refreshJobs } from "./queue";
+import { analysesQuerySchema, listUploads } from "./uploads";
+import { enforceQuota, getQuotaStatus, identityOf } from "./quotas";
+import { BlockedAddressError, InvalidAudioError, QuotaExceededError } from "./errors";
+import { requireAuth, setupAuth } from "./auth";
+import { setupWorkspaces, workspaceAccess } from "./workspaces";
+import { setupApiKeys } from "./api-keys";
+import { setupApiV1 } from "./api-v1";
+import { setupWebhooks } from "./webhooks";
 
 // Constants
 const MemoryStoreSession = MemoryStore(session);
-const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/wav', 'audio/ogg'];
-const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
-const POLLING_INTERVAL = 5000; // 5 seconds
-
-// Utility functions
-function logStep(step: string, data?: any) {
-  const timestamp = new Date().toISOString();
-  console.log(`[${timestamp}] ${step}`);
-  if (data) {
-    console.log(JSON.stringify(data, null, 2));
-  }
-}
+const EVENT_STREAM_HEARTBEAT = 15000; // 15 seconds
 
 export function registerRoutes(app: Express): Server {
+  // Public API, authenticated by API key rather than session
+  setupApiV1(app);
+
   // Session configuration
   app.use(
     session({
-      secret: "audio-analysis-secret",
+      secret: process.env.SESSION_SECRET || "audio-analysis-secret",
       resave: false,
       saveUninitialized: true,
       store: new MemoryStoreSession({
@@ -52,176 +52,201 @@ export function registerRoutes(app: Express): Server {
     })
   );
 
-  // Multer configuration
-  const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: { fileSize: MAX_FILE_SIZE },
-    fileFilter: (_req, file, cb) => {
-      if (ALLOWED_AUDIO_TYPES.includes(file.mimetype)) {
-        cb(null, true);
-      } else {
-        cb(new Error('Invalid file type. Only audio files are allowed.'));
-      }
-    }
-  });
+  // Accounts: passport sits on top of the session, and workspaces on top of accounts
+  setupAuth(app);
+  setupWorkspaces(app);
+  setupApiKeys(app);
+  setupWebhooks(app);
 
-  // Routes
-  app.get("/api/check-upload", (_req, res) => {
-    res.json({ hasUploaded: false });
+  // Routes. Every route resolves the logged-in user's active workspace and checks their role in it
+  app.get("/api/check-upload", workspaceAccess("view"), async (req, res) => {
+    try {
+      const status = await getQuotaStatus(identityOf(req), 1);
+      res.json({ hasUploaded: !status.allowed, ...status });
+    } catch (error: any) {
+      console.error('Quota check error:', { error: error.message });
+      res.status(500).json({ error: 'Could not check upload quota' });
+    }
   });
 
-  app.post("/api/upload", upload.single("audio"), async (req, res) => {
-    const startTime = Date.now();
+  app.post("/api/upload", workspaceAccess("analyze"), enforceQuota(() => 1), uploadSlot, audioUpload.single("audio"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+    const options = analysisOptionsSchema.superRefine(checkAnalysisModes).safeParse(req.body ?? {});
+    if (!options.success) {
+      return res.status(400).json({
+        error: "Invalid analysis options",
+        details: options.error.flatten().fieldErrors
+      });
+    }
 
     try {
-      if (!req.file) {
-        throw new Error("No file uploaded");
+      const job = await startJob(identityOf(req), [req.file], options.data);
+      res.status(202).json({ jobId: job.id });
+    } catch (error: any) {
+      if (error instanceof InvalidAudioError) {
+        return res.status(400).json({ error: error.message });
       }
+      if (error instanceof QuotaExceededError) {
+        return res.status(429).json({ error: error.message, quota: error.quota });
+      }
+      console.error('Upload record error:', { error: error.message });
+      res.status(500).json({ error: 'Could not record upload' });
+    }
+  });
 
-      // Log file details
-      logStep("Starting file upload", {
-        fileName: req.file.originalname,
-        fileSize: req.file.size,
-        mimeType: req.file.mimetype
-      });
-
-      // Authentication
-      const { id_token } = await getAuthToken();
-      const headers = createHeaders(id_token, "application/json");
-
-      // File handling
-      const fileId = await createStorageLocation(headers);
-      await uploadFileToStorage(req.file, fileId, headers);
-      const iasUrl = await getIasUrl(fileId, headers);
+  // The quota is checked before receiving the files, then again once we know how many there are
+  app.post(
+    "/api/upload/batch",
+    workspaceAccess("analyze"),
+    enforceQuota(() => 1),
+    uploadSlot,
+    audioUpload.array("audio", MAX_BATCH_FILES),
+    enforceQuota((req) => (req.files as Express.Multer.File[] | undefined)?.length ?? 0),
+    async (req, res) => {
+      const files = req.files as Express.Multer.File[] | undefined;
+      if (!files || files.length === 0) {
+        return res.status(400).json({ error: "No files uploaded" });
+      }
+      const options = analysisOptionsSchema.superRefine(checkAnalysisModes).safeParse(req.body ?? {});
+      if (!options.success) {
+        return res.status(400).json({
+          error: "Invalid analysis options",
+          details: options.error.flatten().fieldErrors
+        });
+      }
 
-      // Analysis
-      const jobId = await startAIDetection(iasUrl, headers);
-      const result = await pollForResults(jobId, headers);
+      try {
+        const job = await startJob(identityOf(req), files, options.data);
+        res.status(202).json({ jobId: job.id });
+      } catch (error: any) {
+        if (error instanceof InvalidAudioError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof QuotaExceededError) {
+          return res.status(429).json({ error: error.message, quota: error.quota });
+        }
+        console.error('Upload record error:', { error: error.message });
+        res.status(500).json({ error: 'Could not record upload' });
+      }
+    }
+  );
 
-      res.json({
-        ISAI: result.isAi,
-        confidence: result.confidence
+  app.post("/api/analyze-url", workspaceAccess("analyze"), enforceQuota(() => 1), async (req, res) => {
+    const body = analyzeUrlSchema.merge(analysisOptionsSchema).superRefine(checkAnalysisModes).safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid request body",
+        details: body.error.flatten().fieldErrors
       });
+    }
 
-    } catch (error: any) {
-      const processingTime = Date.now() - startTime;
-      console.error('Upload error:', {
-        error: error.message,
-        processingTime: `${processingTime}ms`,
-        response: error.response?.data
-      });
-      res.status(500).json({
-        error: error.message || 'Upload failed',
-        details: error.response?.data
+    try {
+      const job = await startUrlJob(identityOf(req), body.data.url, {
+        force: body.data.force,
+        segmented: body.data.segmented,
+        stems: body.data.stems
       });
+      res.status(202).json({ jobId: job.id });
+    } catch (error: any) {
+      if (error instanceof BlockedAddressError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Upload record error:', { error: error.message });
+      res.status(500).json({ error: 'Could not record upload' });
     }
   });
 
-  return createServer(app);
-}
+  app.get("/api/jobs/:id", workspaceAccess("view"), async (req, res) => {
+    const job = await findOwnJob(req);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
 
-// Helper functions for API calls
-async function getAuthToken() {
-  logStep("Getting IRCAM auth token");
+  app.delete("/api/jobs/:id", workspaceAccess("analyze"), async (req, res) => {
+    const job = await findOwnJob(req);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (!cancelJob(job.id, "Cancelled by user")) {
+      return res.status(409).json({ error: `Job is already ${job.stage}` });
+    }
+    res.status(202).json(job);
+  });
 
-  const payload = {
-    client_id: process.env.IRCAM_CLIENT_ID,
-    client_secret: process.env.IRCAM_CLIENT_SECRET,
-    grant_type: "client_credentials",
-    scope: "api" // Adding required scope parameter
-  };
+  // Server-sent events stream of a job's state, pushed on every stage change and pipeline step
+  app.get("/api/jobs/:id/events", workspaceAccess("view"), async (req, res) => {
+    const job = await findOwnJob(req);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
 
-  try {
-    const response = await axios.post("https://api.ircamamplify.io/oauth/token", payload, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      }
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
     });
+    res.flushHeaders();
 
-    if (!response.data.id_token) {
-      throw new Error('No id_token received in response');
+    const send = (current: typeof job) => {
+      res.write(`data: ${JSON.stringify(current)}\n\n`);
+    };
+
+    send(job);
+    if (isTerminalStage(job.stage)) {
+      return res.end();
     }
 
-    logStep("Auth token received", { tokenReceived: true });
-    return response.data;
-  } catch (error: any) {
-    console.error('Auth token error:', {
-      status: error.response?.status,
-      data: error.response?.data
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_STREAM_HEARTBEAT);
+    const unsubscribe = subscribeToJob(job.id, identityOf(req), (current) => {
+      send(current);
+      if (isTerminalStage(current.stage)) {
+        close();
+      }
     });
-    throw new Error(`Authentication failed: ${error.response?.data?.message || error.message}`);
-  }
-}
-
-function createHeaders(token: string, contentType: string) {
-  return {
-    Authorization: `Bearer ${token}`,
-    "Content-Type": contentType,
-    Accept: "application/json"
-  };
-}
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    req.on("close", close);
+  });
 
-async function createStorageLocation(headers: any) {
-  logStep("Creating storage location");
-  const response = await axios.post(
-    "https://storage.ircamamplify.io/manager/",
-    {},
-    { headers }
-  );
-  return response.data.id;
-}
+  app.get("/api/analyses", requireAuth, workspaceAccess("view"), async (req, res) => {
+    const query = analysesQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        error: "Invalid query parameters",
+        details: query.error.flatten().fieldErrors
+      });
+    }
 
-async function uploadFileToStorage(file: Express.Multer.File, fileId: string, headers: any) {
-  logStep("Uploading file to storage");
-  const uploadHeaders = { ...headers, "Content-Type": file.mimetype };
-  await axios.put(
-    `https://storage.ircamamplify.io/${fileId}/${file.originalname}`,
-    file.buffer,
-    { headers: uploadHeaders }
-  );
-}
+    try {
+      res.json(await listUploads({ ...query.data, workspaceId: req.workspace!.id }));
+    } catch (error: any) {
+      console.error('Analyses query error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load analyses' });
+    }
+  });
 
-async function getIasUrl(fileId: string, headers: any) {
-  logStep("Getting IAS URL");
-  const response = await axios.get(
-    `https://storage.ircamamplify.io/manager/${fileId}`,
-    { headers }
-  );
-  return response.data.ias;
-}
+  // Workers pick up queued jobs, including any a previous run of the server left unfinished
+  startAnalysisWorkers();
 
-async function startAIDetection(iasUrl: string, headers: any) {
-  logStep("Starting AI detection");
-  const response = await axios.post(
-    "https://api.ircamamplify.io/aidetector/",
-    { audioUrlList: [iasUrl] },
-    { headers }
-  );
-  return response.data.id;
+  return createServer(app);
 }
 
-async function pollForResults(jobId: string, headers: any): Promise<AnalysisResult> {
-  let attempts = 0;
-  while (true) {
-    attempts++;
-    await new Promise(resolve => setTimeout(resolve, POLLING_INTERVAL));
-
-    logStep(`Checking job status (attempt ${attempts})`);
-    const response = await axios.get<IRCAMResponse>(
-      `https://api.ircamamplify.io/aidetector/${jobId}`,
-      { headers }
-    );
-
-    const status = response.data.job_infos.job_status;
-    if (status === "success") {
-      const result = response.data.job_infos.report_info!.report.resultList[0];
-      logStep("Analysis complete", result);
-      return result;
-    }
-
-    if (status === "error") {
-      throw new Error("Processing failed");
-    }
+// Unknown jobs and jobs started by someone else look the same to the caller
+// The job may have been submitted to, or be running in, another server process, so its state is
+// read back from the queue first (see queue.ts)
+async function findOwnJob(req: Request) {
+  try {
+    await refreshJobs([req.params.id]);
+  } catch (error: any) {
+    console.error('Job refresh error:', { jobId: req.params.id, error: error.message });
   }
-}
\ No newline at end of file
+  const job = getJob(req.params.id);
+  return job && isJobOwner(job.id, identityOf(req)) ? job : undefined;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { createTestApp, wavFile } from "./test/helpers";
+import { aggregateSegments, planSegments } from "./segments";
+import { InvalidAudioError } from "./errors";
+
+// Windows of one second overlapping by half a second, at most three per track, read when
+// segments.ts is loaded
+vi.hoisted(() => {
+  process.env.SEGMENT_LENGTH_SECONDS = "1";
+  process.env.SEGMENT_OVERLAP_SECONDS = "0.5";
+  process.env.SEGMENT_MAX_COUNT = "3";
+});
+
+describe("planSegments", () => {
+  it("analyzes a track no longer than a window as a single segment", () => {
+    expect(planSegments(0.8)).toEqual([{ start: 0, end: 0.8 }]);
+    expect(planSegments(1)).toEqual([{ start: 0, end: 1 }]);
+  });
+
+  it("cuts a longer track into overlapping windows", () => {
+    expect(planSegments(2)).toEqual([
+      { start: 0, end: 1 },
+      { start: 0.5, end: 1.5 },
+      { start: 1, end: 2 }
+    ]);
+  });
+
+  it("moves the last window back to end with the track", () => {
+    expect(planSegments(1.8)).toEqual([
+      { start: 0, end: 1 },
+      { start: 0.5, end: 1.5 },
+      { start: 0.8, end: 1.8 }
+    ]);
+  });
+});
+
+describe("aggregateSegments", () => {
+  it("flags a track as AI when any segment is, with the highest confidence among them", () => {
+    expect(aggregateSegments([
+      { start: 0, end: 1, isAi: false, confidence: 99 },
+      { start: 1, end: 2, isAi: true, confidence: 70 },
+      { start: 2, end: 3, isAi: true, confidence: 85 }
+    ])).toEqual({ isAi: true, confidence: 85 });
+  });
+
+  it("calls a track human with the lowest confidence of its segments", () => {
+    expect(aggregateSegments([
+      { start: 0, end: 1, isAi: false, confidence: 95 },
+      { start: 1, end: 2, isAi: false, confidence: 60 }
+    ])).toEqual({ isAi: false, confidence: 60 });
+  });
+});
+
+describe("segment limit", () => {
+  it("rejects audio that needs more segments than allowed", () => {
+    expect(() => planSegments(3.5)).toThrow(InvalidAudioError);
+  });
+
+  it("rejects a segmented upload before it is queued", async () => {
+    const response = await request(createTestApp())
+      .post("/api/upload")
+      .field("segmented", "true")
+      .attach("audio", wavFile(5), "long mix [mock:ai].wav");
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatch(/^long mix \[mock:ai\]\.wav: .*9 segments, more than the limit of 3/);
+  });
+});
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { AudioSegment } from "@db/schema";
+import type { DetectionResult } from "./ircam";
+import { InvalidAudioError } from "./errors";
+
+// Segment-level analysis, for long tracks and DJ mixes where a single verdict hides which parts
+// were generated. A segmented job cuts every track into overlapping windows, submits each window
+// to the detector like a file of its own, and reports the verdict of every window along with one
+// for the whole track.
+
+// Types
+export interface SegmentOptions {
+  length: number; // seconds
+  overlap: number; // seconds
+  maxSegments: number; // per track
+}
+
+// Constants
+const segmentEnvSchema = z.object({
+  SEGMENT_LENGTH_SECONDS: z.coerce.number().positive().default(30),
+  SEGMENT_OVERLAP_SECONDS: z.coerce.number().min(0).default(10),
+  SEGMENT_MAX_COUNT: z.coerce.number().int().positive().default(200)
+});
+
+export const segmentOptions = loadSegmentOptions();
+
+function loadSegmentOptions(): SegmentOptions {
+  const parsed = segmentEnvSchema.safeParse(process.env);
+  if (!parsed.success) {
+    throw new Error(`Invalid segment settings: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`);
+  }
+
+  const env = parsed.data;
+  if (env.SEGMENT_OVERLAP_SECONDS >= env.SEGMENT_LENGTH_SECONDS) {
+    throw new Error("Invalid segment settings: SEGMENT_OVERLAP_SECONDS must be shorter than SEGMENT_LENGTH_SECONDS");
+  }
+  return {
+    length: env.SEGMENT_LENGTH_SECONDS,
+    overlap: env.SEGMENT_OVERLAP_SECONDS,
+    maxSegments: env.SEGMENT_MAX_COUNT
+  };
+}
+
+// The windows a track of `duration` seconds is cut into. Every window is full length: the last one
+// is moved back to end with the track, and a track shorter than a window is a single segment.
+// Throws InvalidAudioError for a track that needs more than SEGMENT_MAX_COUNT windows.
+export function planSegments(duration: number): AudioSegment[] {
+  const { length, overlap, maxSegments } = segmentOptions;
+  if (duration <= length) {
+    return [{ start: 0, end: duration }];
+  }
+
+  const step = length - overlap;
+  const count = Math.ceil((duration - length) / step) + 1;
+  if (count > maxSegments) {
+    throw new InvalidAudioError(
+      `Audio of ${(duration / 60).toFixed(1)} minutes would be cut into ${count} segments, more than the limit of ${maxSegments}`
+    );
+  }
+  return Array.from({ length: count }, (_, index) => {
+    const start = Math.min(index * step, duration - length);
+    return { start: round(start), end: round(start + length) };
+  });
+}
+
+// A track is AI generated as soon as part of it is. Its verdict is AI when any segment is, with the
+// highest confidence among those segments; otherwise human, with the lowest confidence of any segment.
+export function aggregateSegments(segments: AudioSegment[]): DetectionResult {
+  const flagged = segments.filter((segment) => segment.isAi);
+  if (flagged.length > 0) {
+    return { isAi: true, confidence: Math.max(...flagged.map((segment) => segment.confidence!)) };
+  }
+  return { isAi: false, confidence: Math.min(...segments.map((segment) => segment.confidence!)) };
+}
+
+// "mix.flac" becomes "mix.segment-004.flac", before it is given the extension of the encoded format
+export function segmentFileName(fileName: string, index: number) {
+  const dot = fileName.lastIndexOf(".");
+  const label = `segment-${String(index + 1).padStart(3, "0")}`;
+  return dot > 0 ? `${fileName.slice(0, dot)}.${label}${fileName.slice(dot)}` : `${fileName}.${label}`;
+}
+
+// Milliseconds are plenty for seeking and display
+function round(seconds: number) {
+  return Math.round(seconds * 1000) / 1000;
+}
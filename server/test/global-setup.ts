@@ -0,0 +1,11 @@
+import type { GlobalSetupContext } from "vitest/node";
+
+// Serves the mock IRCAM Amplify APIs for the whole test run, with the settings the tests run
+// under, so the detector's behaviour is driven by the [mock:…] tags in file names
+export default async function setup({ config }: GlobalSetupContext) {
+  Object.assign(process.env, config.env);
+  const { startMockIrcamServer } = await import("../mock-ircam");
+  const server = startMockIrcamServer();
+
+  return () => new Promise<void>((resolve) => server.close(() => resolve()));
+}
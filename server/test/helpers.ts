@@ -0,0 +1,55 @@
+import express from "express";
+import { registerRoutes } from "../routes";
+
+// Constants
+const SAMPLE_RATE = 8000;
+const POLL_INTERVAL = 50;
+
+// Tones differ from one file to the next, so no track repeats an earlier one and reuses its verdict
+let nextFrequency = 220;
+
+// The API as server/index.ts sets it up, without Vite or listening on a port
+export function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  registerRoutes(app);
+  return app;
+}
+
+// A mono 16-bit PCM WAV file holding a sine tone
+export function wavFile(seconds = 2) {
+  const frequency = nextFrequency++;
+  const samples = Math.round(seconds * SAMPLE_RATE);
+  const file = Buffer.alloc(44 + samples * 2);
+  file.write("RIFF", 0, "ascii");
+  file.writeUInt32LE(36 + samples * 2, 4);
+  file.write("WAVE", 8, "ascii");
+  file.write("fmt ", 12, "ascii");
+  file.writeUInt32LE(16, 16);
+  file.writeUInt16LE(1, 20); // PCM
+  file.writeUInt16LE(1, 22); // Mono
+  file.writeUInt32LE(SAMPLE_RATE, 24);
+  file.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  file.writeUInt16LE(2, 32);
+  file.writeUInt16LE(16, 34);
+  file.write("data", 36, "ascii");
+  file.writeUInt32LE(samples * 2, 40);
+  for (let index = 0; index < samples; index++) {
+    file.writeInt16LE(Math.round(8000 * Math.sin((2 * Math.PI * frequency * index) / SAMPLE_RATE)), 44 + index * 2);
+  }
+  return file;
+}
+
+// Calls `check` until it returns something other than undefined, or fails after `timeoutMs`
+export async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs = 20000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+  throw new Error(`Gave up waiting after ${timeoutMs}ms`);
+}
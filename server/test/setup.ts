@@ -0,0 +1,19 @@
+import { createRequire } from "module";
+import { vi } from "vitest";
+
+// Each test file gets its own in-memory Postgres in place of the Neon database, with the tables
+// of db/schema.ts created the way drizzle-kit would push them
+vi.mock("@db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  // The ES module build of drizzle-kit's API cannot load its own dependencies
+  const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+  const schema = await import("@db/schema");
+
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { db: drizzle(client, { schema }) };
+});
@@ -0,0 +1,126 @@
+import { stat } from "fs/promises";
+import { z } from "zod";
+import { AUDIO_FORMATS, audioFormatById, audioFormatByType, type AudioFormatId } from "@shared/audio-formats";
+import { probeAudio, type AudioMetadata } from "./audio-probe";
+import { runFfmpeg } from "./ffmpeg";
+
+// Optional normalization step between receiving a file and submitting it to the detector.
+// When enabled, files in a format the detector is not sent directly, and files over the size
+// limit, are re-encoded with ffmpeg. The original stays untouched next to its copy.
+
+// Types
+export type TranscodeFormat = (typeof TRANSCODE_FORMATS)[number];
+
+export interface TranscodeOptions {
+  enabled: boolean;
+  format: TranscodeFormat;
+  bitrate: number; // kbps, only used by lossy formats
+  sampleRate: number | null; // Hz, null keeps the rate of the input
+  detectorFormats: AudioFormatId[];
+  maxFileSize: number; // bytes
+}
+
+export interface TranscodedFile {
+  path: string;
+  size: number;
+  metadata: AudioMetadata;
+}
+
+// Constants
+const TRANSCODE_FORMATS = ["mp3", "ogg", "opus", "m4a", "flac", "wav"] as const;
+
+const ENCODERS: Record<TranscodeFormat, { codec: string; muxer: string; lossy: boolean }> = {
+  mp3: { codec: "libmp3lame", muxer: "mp3", lossy: true },
+  ogg: { codec: "libvorbis", muxer: "ogg", lossy: true },
+  opus: { codec: "libopus", muxer: "ogg", lossy: true },
+  m4a: { codec: "aac", muxer: "ipod", lossy: true },
+  flac: { codec: "flac", muxer: "flac", lossy: false },
+  wav: { codec: "pcm_s16le", muxer: "wav", lossy: false }
+};
+
+// Opus is always encoded at 48kHz, whatever sample rate is configured
+const OPUS_SAMPLE_RATE = 48000;
+
+const transcodeEnvSchema = z.object({
+  TRANSCODE_ENABLED: z.enum(["true", "false", "1", "0"]).default("false"),
+  TRANSCODE_FORMAT: z.enum(TRANSCODE_FORMATS).default("mp3"),
+  TRANSCODE_BITRATE_KBPS: z.coerce.number().int().positive().default(192),
+  TRANSCODE_SAMPLE_RATE: z.coerce.number().int().positive().optional(),
+  TRANSCODE_DETECTOR_FORMATS: z.string().default("mp3,wav,ogg"),
+  TRANSCODE_MAX_FILE_SIZE_MB: z.coerce.number().positive().default(100)
+});
+
+export const transcodeOptions = loadTranscodeOptions();
+
+function loadTranscodeOptions(): TranscodeOptions {
+  const parsed = transcodeEnvSchema.safeParse(process.env);
+  if (!parsed.success) {
+    throw new Error(`Invalid transcoding settings: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`);
+  }
+
+  const env = parsed.data;
+  const detectorFormats = env.TRANSCODE_DETECTOR_FORMATS.split(",").map((id) => id.trim().toLowerCase()).filter(Boolean);
+  const unknown = detectorFormats.filter((id) => !AUDIO_FORMATS.some((format) => format.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid TRANSCODE_DETECTOR_FORMATS: unknown format ${unknown.join(", ")}`);
+  }
+
+  return {
+    enabled: env.TRANSCODE_ENABLED === "true" || env.TRANSCODE_ENABLED === "1",
+    format: env.TRANSCODE_FORMAT,
+    bitrate: env.TRANSCODE_BITRATE_KBPS,
+    sampleRate: env.TRANSCODE_SAMPLE_RATE ?? null,
+    detectorFormats: detectorFormats as AudioFormatId[],
+    maxFileSize: env.TRANSCODE_MAX_FILE_SIZE_MB * 1024 * 1024
+  };
+}
+
+// Why a file has to be transcoded before it is submitted, or undefined when it can go as it is
+export function transcodeReason(file: { mimetype: string; size: number }): string | undefined {
+  if (!transcodeOptions.enabled) {
+    return undefined;
+  }
+  const format = audioFormatByType(file.mimetype);
+  if (!format || !transcodeOptions.detectorFormats.includes(format.id)) {
+    return `${format?.label ?? file.mimetype} is not submitted to the detector as it is`;
+  }
+  if (file.size > transcodeOptions.maxFileSize) {
+    return `File is larger than ${transcodeOptions.maxFileSize / (1024 * 1024)}MB`;
+  }
+  return undefined;
+}
+
+// The file name of the transcoded copy, with the target format's extension
+export function transcodedFileName(fileName: string) {
+  const extension = audioFormatById(transcodeOptions.format).extensions[0];
+  const dot = fileName.lastIndexOf(".");
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}${extension}`;
+}
+
+// Encodes the first audio stream of `input` into `destination`, dropping cover art and tags, and
+// inspects the result like any upload. `range` only encodes that part of the input, in seconds.
+// Aborting `signal` stops ffmpeg.
+export async function transcodeFile(
+  input: string,
+  destination: string,
+  signal: AbortSignal,
+  range?: { start: number; end: number }
+): Promise<TranscodedFile> {
+  const { format, bitrate } = transcodeOptions;
+  const encoder = ENCODERS[format];
+  const sampleRate = format === "opus" ? OPUS_SAMPLE_RATE : transcodeOptions.sampleRate;
+  await runFfmpeg([
+    "-y",
+    ...(range ? ["-ss", String(range.start), "-t", String(range.end - range.start)] : []),
+    "-i", input,
+    "-map", "0:a:0", "-map_metadata", "-1",
+    "-c:a", encoder.codec,
+    ...(encoder.lossy ? ["-b:a", `${bitrate}k`] : []),
+    ...(sampleRate ? ["-ar", String(sampleRate)] : []),
+    "-f", encoder.muxer,
+    destination
+  ], signal);
+
+  const { size } = await stat(destination);
+  return { path: destination, size, metadata: await probeAudio(destination) };
+}
@@ -0,0 +1,157 @@
+import { and, asc, count, desc, eq, gte, ilike, lte, sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { uploads, users, type InsertUpload, type SelectUpload } from "@db/schema";
+
+// Constants
+const MAX_PAGE_SIZE = 100;
+
+// Query string of the history endpoints, parsed into UploadFilters minus the scope
+export const analysesQuerySchema = z.object({
+  verdict: z.enum(["ai", "human"]).optional(),
+  minConfidence: z.coerce.number().min(0).max(100).optional(),
+  maxConfidence: z.coerce.number().min(0).max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  fileName: z.string().trim().min(1).optional(),
+  sort: z.enum(["createdAt", "fileName", "confidence", "verdict", "status"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(20)
+});
+
+export type UploadSortField = "createdAt" | "fileName" | "confidence" | "verdict" | "status";
+
+export interface UploadFilters {
+  workspaceId: number;
+  verdict?: "ai" | "human";
+  minConfidence?: number;
+  maxConfidence?: number;
+  from?: Date;
+  to?: Date;
+  fileName?: string;
+  sort: UploadSortField;
+  order: "asc" | "desc";
+  page: number;
+  pageSize: number;
+}
+
+// History rows carry the email of whoever submitted them, so a workspace can see who checked what
+export interface UploadRecord extends Pick<SelectUpload, keyof typeof historyColumns> {
+  uploadedBy: string | null;
+}
+
+export interface UploadPage {
+  items: UploadRecord[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+// What a workspace's history shows of an upload. Where it was sent from (session, IP address), where
+// the server keeps its audio and how it is identified are left out, as are the IRCAM file and job ids.
+// Fingerprints are only compared on the server, and would weigh down every page.
+const historyColumns = {
+  id: uploads.id,
+  userId: uploads.userId,
+  workspaceId: uploads.workspaceId,
+  fileName: uploads.fileName,
+  sourceUrl: uploads.sourceUrl,
+  fileSize: uploads.fileSize,
+  mimeType: uploads.mimeType,
+  duration: uploads.duration,
+  sampleRate: uploads.sampleRate,
+  channels: uploads.channels,
+  bitrate: uploads.bitrate,
+  submittedAudio: uploads.submittedAudio,
+  segments: uploads.segments,
+  stems: uploads.stems,
+  cachedFromId: uploads.cachedFromId,
+  cachedAnalyzedAt: uploads.cachedAnalyzedAt,
+  similarToId: uploads.similarToId,
+  similarity: uploads.similarity,
+  status: uploads.status,
+  isAi: uploads.isAi,
+  confidenceScore: uploads.confidenceScore,
+  errorReason: uploads.errorReason,
+  createdAt: uploads.createdAt,
+  completedAt: uploads.completedAt
+};
+
+// Confidence is stored as text, so numeric filtering and sorting go through a cast
+const confidenceValue = sql<number>`cast(${uploads.confidenceScore} as real)`;
+
+const sortColumns = {
+  createdAt: uploads.createdAt,
+  fileName: uploads.fileName,
+  confidence: confidenceValue,
+  verdict: uploads.isAi,
+  status: uploads.status
+};
+
+// The upload row is an audit trail: failing to update it must never break the analysis itself
+export async function updateUploadRecord(id: number, values: Partial<InsertUpload>) {
+  try {
+    await db.update(uploads).set(values).where(eq(uploads.id, id));
+  } catch (error: any) {
+    console.error('Upload record update error:', {
+      uploadId: id,
+      error: error.message
+    });
+  }
+}
+
+// The tracks of a queued job, in the order they were submitted
+export async function listJobUploads(jobId: string): Promise<SelectUpload[]> {
+  return db.select().from(uploads).where(eq(uploads.jobId, jobId)).orderBy(asc(uploads.id));
+}
+
+// A single upload, or undefined when it does not exist or belongs to another workspace
+export async function getUpload(id: number, workspaceId: number): Promise<SelectUpload | undefined> {
+  const [row] = await db.select().from(uploads)
+    .where(and(eq(uploads.id, id), eq(uploads.workspaceId, workspaceId)));
+  return row;
+}
+
+export async function listUploads(filters: UploadFilters): Promise<UploadPage> {
+  const conditions: SQL[] = [eq(uploads.workspaceId, filters.workspaceId)];
+
+  if (filters.verdict) {
+    conditions.push(eq(uploads.isAi, filters.verdict === "ai"));
+  }
+  if (filters.minConfidence !== undefined) {
+    conditions.push(gte(confidenceValue, filters.minConfidence));
+  }
+  if (filters.maxConfidence !== undefined) {
+    conditions.push(lte(confidenceValue, filters.maxConfidence));
+  }
+  if (filters.from) {
+    conditions.push(gte(uploads.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(uploads.createdAt, filters.to));
+  }
+  if (filters.fileName) {
+    conditions.push(ilike(uploads.fileName, `%${escapeLikePattern(filters.fileName)}%`));
+  }
+
+  const where = and(...conditions);
+  const orderBy = filters.order === "asc" ? asc(sortColumns[filters.sort]) : desc(sortColumns[filters.sort]);
+
+  const [items, [{ total }]] = await Promise.all([
+    db.select({ ...historyColumns, uploadedBy: users.email })
+      .from(uploads)
+      .leftJoin(users, eq(users.id, uploads.userId))
+      .where(where)
+      .orderBy(orderBy, desc(uploads.id))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize),
+    db.select({ total: count() }).from(uploads).where(where)
+  ]);
+
+  return { items, page: filters.page, pageSize: filters.pageSize, total };
+}
+
+function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { retryDelay, signWebhook } from "./webhooks";
+
+describe("signWebhook", () => {
+  const body = JSON.stringify({ event: "analysis.completed" });
+
+  it("signs the timestamp and raw body with HMAC-SHA256", () => {
+    expect(signWebhook("whsec_test", 1700000000, body))
+      .toBe("5b5a98d10adb8b284dabe95152a79b6a1275a1bc4d89cc46d59d8eec2605b3bc");
+  });
+
+  it("gives another signature for another timestamp, body or secret", () => {
+    const signature = signWebhook("whsec_test", 1700000000, body);
+
+    expect(signWebhook("whsec_test", 1700000001, body)).not.toBe(signature);
+    expect(signWebhook("whsec_test", 1700000000, `${body} `)).not.toBe(signature);
+    expect(signWebhook("whsec_other", 1700000000, body)).not.toBe(signature);
+  });
+});
+
+describe("retryDelay", () => {
+  it("doubles from 30 seconds after every failed attempt", () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([30000, 60000, 120000, 240000]);
+  });
+
+  it("waits an hour at most", () => {
+    expect(retryDelay(8)).toBe(60 * 60 * 1000);
+    expect(retryDelay(30)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,318 @@
+import type { Express } from "express";
+import axios from "axios";
+import { createHmac } from "crypto";
+import { and, asc, desc, eq, inArray, lte } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { analysisJobs, apiKeys, webhookDeliveries, type SelectWebhookDelivery } from "@db/schema";
+import { onJobFinished, type AnalysisResult, type Job, type JobStage, type SimilarRecording } from "./jobs";
+import { httpUrlSchema } from "./analysis";
+import { requireAuth } from "./auth";
+import { workspaceAccess } from "./workspaces";
+import { generateWebhookSecret, managedKeyAccess } from "./api-keys";
+import { assertPublicUrl, publicRequestConfig } from "./outbound";
+import { BlockedAddressError } from "./errors";
+import { log } from "./vite";
+
+// Signed callbacks sent when a job submitted through the public API finishes. Each delivery is
+// stored before it is attempted, retried with exponential backoff until it succeeds or runs out
+// of attempts, and kept as a log that can be resent from.
+//
+// Receivers verify the X-Webhook-Signature header, "t=<unix seconds>,v1=<hex>", where v1 is the
+// HMAC-SHA256 of "<t>.<raw body>" keyed with the API key's webhook secret.
+
+// Types
+export type WebhookEvent = "analysis.completed" | "analysis.failed";
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  jobId: string;
+  status: JobStage;
+  error: string | null;
+  analyses: {
+    id: number;
+    fileName: string;
+    result: AnalysisResult | null;
+    similarTo: SimilarRecording | null;
+  }[];
+  finishedAt: string;
+}
+
+interface JobWebhook {
+  apiKeyId: number;
+  callbackUrl: string | null;
+}
+
+// Constants
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+const RETRY_BASE_DELAY = 30 * 1000; // 30 seconds, doubled after every failed attempt
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
+const DELIVERY_TIMEOUT = 10 * 1000; // 10 seconds
+// A claimed delivery that has not recorded its outcome by then, such as one cut short by a crash,
+// is due again
+const CLAIM_TIMEOUT = 60 * 1000; // 1 minute
+const SWEEP_INTERVAL = 15 * 1000; // 15 seconds
+const SWEEP_BATCH_SIZE = 20;
+const DELIVERY_LOG_SIZE = 50;
+
+const webhookUrlSchema = z.object({
+  url: httpUrlSchema.nullable()
+});
+
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Keys created before webhooks existed get their signing secret when a job first asks for a callback
+export async function ensureWebhookSecret(apiKeyId: number) {
+  const [key] = await db.select({ webhookSecret: apiKeys.webhookSecret }).from(apiKeys).where(eq(apiKeys.id, apiKeyId));
+  if (key && !key.webhookSecret) {
+    await db.update(apiKeys).set({ webhookSecret: generateWebhookSecret() }).where(eq(apiKeys.id, apiKeyId));
+  }
+}
+
+function toPayload(job: Job): WebhookPayload {
+  return {
+    event: job.stage === "done" ? "analysis.completed" : "analysis.failed",
+    jobId: job.id,
+    status: job.stage,
+    error: job.error ?? null,
+    analyses: job.tracks.map((track) => ({
+      id: track.uploadId,
+      fileName: track.fileName,
+      result: track.result ?? null,
+      similarTo: track.similarTo ?? null
+    })),
+    finishedAt: job.updatedAt
+  };
+}
+
+async function queueDeliveries(job: Job, webhook: JobWebhook) {
+  const [key] = await db.select().from(apiKeys).where(eq(apiKeys.id, webhook.apiKeyId));
+  if (!key || key.revokedAt) {
+    return;
+  }
+
+  const urls = Array.from(new Set([key.webhookUrl, webhook.callbackUrl].filter((url): url is string => !!url)));
+  if (urls.length === 0) {
+    return;
+  }
+
+  const payload = toPayload(job);
+  const deliveries = await db.insert(webhookDeliveries).values(urls.map((url) => ({
+    apiKeyId: key.id,
+    jobId: job.id,
+    url,
+    event: payload.event,
+    payload,
+    nextAttemptAt: new Date()
+  }))).returning();
+  await deliverDue(deliveries.map((delivery) => delivery.id));
+}
+
+// Claims due deliveries, the given ones or the oldest, by moving their next attempt CLAIM_TIMEOUT
+// ahead, so no other sweep or process sends them meanwhile. SKIP LOCKED, as for the job queue.
+async function claimDueDeliveries(ids?: number[]) {
+  const due = db.select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(and(
+      eq(webhookDeliveries.status, "pending"),
+      lte(webhookDeliveries.nextAttemptAt, new Date()),
+      ids ? inArray(webhookDeliveries.id, ids) : undefined
+    ))
+    .orderBy(asc(webhookDeliveries.nextAttemptAt))
+    .limit(SWEEP_BATCH_SIZE)
+    .for("update", { skipLocked: true });
+
+  return db.update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT) })
+    .where(and(inArray(webhookDeliveries.id, due), eq(webhookDeliveries.status, "pending")))
+    .returning();
+}
+
+async function deliverDue(ids?: number[]) {
+  const claimed = await claimDueDeliveries(ids);
+  await Promise.all(claimed.map(attemptDelivery));
+}
+
+// One attempt at sending a claimed delivery. Any 2xx response counts as delivered; anything else,
+// including timeouts, network errors and URLs that are not public (see outbound.ts), schedules a
+// retry until MAX_ATTEMPTS is reached.
+async function attemptDelivery(delivery: SelectWebhookDelivery) {
+  try {
+    const attempts = delivery.attempts + 1;
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    const [key] = await db.select({ webhookSecret: apiKeys.webhookSecret }).from(apiKeys)
+      .where(eq(apiKeys.id, delivery.apiKeyId));
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await axios.post(delivery.url, body, {
+        ...publicRequestConfig(delivery.url),
+        timeout: DELIVERY_TIMEOUT,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ai-music-detector-webhooks",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": String(delivery.id),
+          "X-Webhook-Signature": `t=${timestamp},v1=${signWebhook(key?.webhookSecret ?? "", timestamp, body)}`
+        }
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver responded ${statusCode}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.message;
+    }
+
+    const delivered = error === null;
+    const exhausted = !delivered && attempts >= MAX_ATTEMPTS;
+    await db.update(webhookDeliveries)
+      .set({
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: error,
+        status: delivered ? "succeeded" : exhausted ? "failed" : "pending",
+        deliveredAt: delivered ? new Date() : null,
+        nextAttemptAt: delivered || exhausted ? null : new Date(Date.now() + retryDelay(attempts))
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    if (!delivered) {
+      log(`Webhook delivery ${delivery.id} to ${delivery.url} failed (attempt ${attempts} of ${MAX_ATTEMPTS}): ${error}`, "webhooks");
+    }
+  } catch (dbError: any) {
+    console.error('Webhook delivery error:', { deliveryId: delivery.id, error: dbError.message });
+  }
+}
+
+// How long to wait after failed attempt number `attempt` (counting from 1) before the next one
+export function retryDelay(attempt: number) {
+  return Math.min(RETRY_BASE_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+}
+
+// Sends a past delivery's payload again, as a new delivery with its own attempts
+async function resendDelivery(delivery: SelectWebhookDelivery) {
+  const [copy] = await db.insert(webhookDeliveries).values({
+    apiKeyId: delivery.apiKeyId,
+    jobId: delivery.jobId,
+    url: delivery.url,
+    event: delivery.event,
+    payload: delivery.payload,
+    nextAttemptAt: new Date()
+  }).returning();
+  await deliverDue([copy.id]);
+  const [updated] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, copy.id));
+  return updated;
+}
+
+// Jobs submitted with an API key send their outcome to the key's webhook URL, if it has one,
+// and to the job's own callback URL, if given
+onJobFinished(async (job) => {
+  try {
+    const [webhook] = await db.select({ apiKeyId: analysisJobs.apiKeyId, callbackUrl: analysisJobs.callbackUrl })
+      .from(analysisJobs)
+      .where(eq(analysisJobs.id, job.id));
+    if (webhook?.apiKeyId) {
+      await queueDeliveries(job, { apiKeyId: webhook.apiKeyId, callbackUrl: webhook.callbackUrl });
+    }
+  } catch (error: any) {
+    console.error('Webhook queue error:', { jobId: job.id, error: error.message });
+  }
+});
+
+// Retries are picked up from the database, so they also survive a restart
+setInterval(async () => {
+  try {
+    await deliverDue();
+  } catch (error: any) {
+    console.error('Webhook retry sweep error:', { error: error.message });
+  }
+}, SWEEP_INTERVAL).unref();
+
+// Webhook settings and delivery log of an API key, for the settings page
+export function setupWebhooks(app: Express) {
+  const keyRoute = [requireAuth, workspaceAccess("analyze"), managedKeyAccess];
+
+  app.get("/api/api-keys/:id/webhook", ...keyRoute, (req, res) => {
+    const key = req.managedApiKey!;
+    res.json({ url: key.webhookUrl, secret: key.webhookSecret });
+  });
+
+  app.put("/api/api-keys/:id/webhook", ...keyRoute, async (req, res) => {
+    const body = webhookUrlSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid webhook URL",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      if (body.data.url) {
+        await assertPublicUrl(body.data.url);
+      }
+      const key = req.managedApiKey!;
+      const secret = key.webhookSecret ?? generateWebhookSecret();
+      await db.update(apiKeys)
+        .set({ webhookUrl: body.data.url, webhookSecret: secret })
+        .where(eq(apiKeys.id, key.id));
+      res.json({ url: body.data.url, secret });
+    } catch (error: any) {
+      if (error instanceof BlockedAddressError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Webhook update error:', { error: error.message });
+      res.status(500).json({ error: 'Could not update webhook' });
+    }
+  });
+
+  // Receivers must switch to the new secret: deliveries are signed with it from now on
+  app.post("/api/api-keys/:id/webhook/rotate-secret", ...keyRoute, async (req, res) => {
+    try {
+      const key = req.managedApiKey!;
+      const secret = generateWebhookSecret();
+      await db.update(apiKeys).set({ webhookSecret: secret }).where(eq(apiKeys.id, key.id));
+      res.json({ url: key.webhookUrl, secret });
+    } catch (error: any) {
+      console.error('Webhook secret rotation error:', { error: error.message });
+      res.status(500).json({ error: 'Could not rotate webhook secret' });
+    }
+  });
+
+  app.get("/api/api-keys/:id/webhook/deliveries", ...keyRoute, async (req, res) => {
+    try {
+      const deliveries = await db.select().from(webhookDeliveries)
+        .where(eq(webhookDeliveries.apiKeyId, req.managedApiKey!.id))
+        .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+        .limit(DELIVERY_LOG_SIZE);
+      res.json(deliveries);
+    } catch (error: any) {
+      console.error('Webhook delivery log error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load webhook deliveries' });
+    }
+  });
+
+  app.post("/api/api-keys/:id/webhook/deliveries/:deliveryId/resend", ...keyRoute, async (req, res) => {
+    try {
+      const [delivery] = await db.select().from(webhookDeliveries)
+        .where(and(
+          eq(webhookDeliveries.id, Number(req.params.deliveryId)),
+          eq(webhookDeliveries.apiKeyId, req.managedApiKey!.id)
+        ));
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      res.status(201).json(await resendDelivery(delivery));
+    } catch (error: any) {
+      console.error('Webhook resend error:', { error: error.message });
+      res.status(500).json({ error: 'Could not resend webhook' });
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp } from "./test/helpers";
+
+let app: Express;
+
+beforeAll(() => {
+  app = createTestApp();
+});
+
+describe("POST /api/workspaces/:id/invitations", () => {
+  it("hands the owner a link the invitee can accept", async () => {
+    const owner = request.agent(app);
+    await owner.post("/api/register").send({ email: "owner@example.com", password: "correct horse" });
+    const { body: { activeWorkspaceId } } = await owner.get("/api/workspaces");
+
+    const invited = await owner
+      .post(`/api/workspaces/${activeWorkspaceId}/invitations`)
+      .send({ email: "invitee@example.com", role: "reviewer" });
+    expect(invited.status).toBe(201);
+    const acceptUrl = new URL(invited.body.acceptUrl);
+    expect(acceptUrl.pathname).toBe("/invitations/accept");
+
+    const listed = await owner.get(`/api/workspaces/${activeWorkspaceId}/invitations`);
+    expect(listed.body[0]).not.toHaveProperty("acceptUrl");
+
+    const invitee = request.agent(app);
+    await invitee.post("/api/register").send({ email: "invitee@example.com", password: "correct horse" });
+    const accepted = await invitee
+      .post("/api/invitations/accept")
+      .send({ token: acceptUrl.searchParams.get("token") });
+    expect(accepted.status).toBe(200);
+    expect(accepted.body).toMatchObject({ id: activeWorkspaceId, role: "reviewer" });
+  });
+});
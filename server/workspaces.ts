@@ -0,0 +1,457 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { and, asc, count, eq, gt, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { uploads, users, workspaceInvitations, workspaceMembers, workspaces } from "@db/schema";
+import { appOrigin, hashToken, logTokenLink, requireAuth } from "./auth";
+
+// Types
+export type WorkspaceRole = "owner" | "reviewer" | "viewer";
+
+// view: read the workspace's analyses and jobs
+// analyze: submit and cancel analyses
+// manage: rename the workspace, manage members and invitations
+export type WorkspacePermission = "view" | "analyze" | "manage";
+
+export interface ActiveWorkspace {
+  id: number;
+  name: string;
+  role: WorkspaceRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace?: ActiveWorkspace;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    workspaceId?: number;
+  }
+}
+
+// Constants
+export const WORKSPACE_ROLES = ["owner", "reviewer", "viewer"] as const;
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: ["view", "analyze", "manage"],
+  reviewer: ["view", "analyze"],
+  viewer: ["view"]
+};
+
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const workspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100)
+});
+
+const activeWorkspaceSchema = z.object({
+  workspaceId: z.number().int().positive()
+});
+
+const memberRoleSchema = z.object({
+  role: z.enum(WORKSPACE_ROLES)
+});
+
+const invitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(WORKSPACE_ROLES).default("reviewer")
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1)
+});
+
+export function hasPermission(role: WorkspaceRole, permission: WorkspacePermission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Resolves the logged-in user's active workspace into req.workspace and checks their role in it.
+// Anonymous requests have no workspace and pass through; routes that need an account use requireAuth first.
+export function workspaceAccess(permission: WorkspacePermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return next();
+    }
+
+    try {
+      req.workspace = await resolveActiveWorkspace(req);
+    } catch (error: any) {
+      console.error('Workspace lookup error:', { error: error.message });
+      return res.status(500).json({ error: 'Could not load workspace' });
+    }
+
+    if (!hasPermission(req.workspace.role, permission)) {
+      return res.status(403).json({ error: `A ${req.workspace.role} cannot do this in ${req.workspace.name}` });
+    }
+    next();
+  };
+}
+
+// For /api/workspaces/:id routes: the caller must be a member of that workspace with the given permission.
+// Non-members get a 404, the same as for a workspace that does not exist.
+function memberAccess(permission: WorkspacePermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const workspaceId = Number(req.params.id);
+    if (!Number.isInteger(workspaceId)) {
+      return res.status(404).json({ error: "Workspace not found" });
+    }
+
+    try {
+      const membership = await findMembership(workspaceId, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      if (!hasPermission(membership.role, permission)) {
+        return res.status(403).json({ error: `A ${membership.role} cannot do this in ${membership.name}` });
+      }
+      req.workspace = membership;
+      next();
+    } catch (error: any) {
+      console.error('Workspace lookup error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load workspace' });
+    }
+  };
+}
+
+async function findMembership(workspaceId: number, userId: number): Promise<ActiveWorkspace | undefined> {
+  const [membership] = await db
+    .select({ id: workspaces.id, name: workspaces.name, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  return membership && { ...membership, role: membership.role as WorkspaceRole };
+}
+
+async function listMemberships(userId: number): Promise<ActiveWorkspace[]> {
+  const memberships = await db
+    .select({ id: workspaces.id, name: workspaces.name, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(asc(workspaces.id));
+  return memberships.map((membership) => ({ ...membership, role: membership.role as WorkspaceRole }));
+}
+
+// The workspace picked in this session, else the user's first one. Users who belong to no
+// workspace (new accounts, or accounts that left every workspace) get a personal one.
+async function resolveActiveWorkspace(req: Request): Promise<ActiveWorkspace> {
+  const user = req.user!;
+  if (req.session.workspaceId !== undefined) {
+    const selected = await findMembership(req.session.workspaceId, user.id);
+    if (selected) {
+      return selected;
+    }
+  }
+
+  const [first] = await listMemberships(user.id);
+  const workspace = first ?? await createPersonalWorkspace(user.id, user.email);
+  req.session.workspaceId = workspace.id;
+  return workspace;
+}
+
+async function createWorkspace(ownerId: number, name: string): Promise<ActiveWorkspace> {
+  return db.transaction(async (tx) => {
+    const [workspace] = await tx.insert(workspaces).values({ name }).returning();
+    await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+    return { id: workspace.id, name: workspace.name, role: "owner" as const };
+  });
+}
+
+// Analyses recorded before the user had a workspace are moved into their personal one
+async function createPersonalWorkspace(userId: number, email: string): Promise<ActiveWorkspace> {
+  const workspace = await createWorkspace(userId, `${email}'s workspace`);
+  await db.update(uploads)
+    .set({ workspaceId: workspace.id })
+    .where(and(eq(uploads.userId, userId), isNull(uploads.workspaceId)));
+  return workspace;
+}
+
+async function countOwners(workspaceId: number) {
+  const [{ owners }] = await db
+    .select({ owners: count() })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, "owner")));
+  return owners;
+}
+
+// Must be called after setupAuth
+export function setupWorkspaces(app: Express) {
+  app.get("/api/workspaces", requireAuth, workspaceAccess("view"), async (req, res) => {
+    try {
+      res.json({
+        activeWorkspaceId: req.workspace!.id,
+        workspaces: await listMemberships(req.user!.id)
+      });
+    } catch (error: any) {
+      console.error('Workspace list error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load workspaces' });
+    }
+  });
+
+  app.post("/api/workspaces", requireAuth, async (req, res) => {
+    const body = workspaceSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid workspace",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const workspace = await createWorkspace(req.user!.id, body.data.name);
+      req.session.workspaceId = workspace.id;
+      res.status(201).json(workspace);
+    } catch (error: any) {
+      console.error('Workspace creation error:', { error: error.message });
+      res.status(500).json({ error: 'Could not create workspace' });
+    }
+  });
+
+  // Switches the workspace that uploads and history apply to for this session
+  app.put("/api/workspaces/active", requireAuth, async (req, res) => {
+    const body = activeWorkspaceSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid request body",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const workspace = await findMembership(body.data.workspaceId, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      req.session.workspaceId = workspace.id;
+      res.json(workspace);
+    } catch (error: any) {
+      console.error('Workspace switch error:', { error: error.message });
+      res.status(500).json({ error: 'Could not switch workspace' });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", requireAuth, memberAccess("manage"), async (req, res) => {
+    const body = workspaceSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid workspace",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      await db.update(workspaces).set({ name: body.data.name }).where(eq(workspaces.id, req.workspace!.id));
+      res.json({ ...req.workspace, name: body.data.name });
+    } catch (error: any) {
+      console.error('Workspace update error:', { error: error.message });
+      res.status(500).json({ error: 'Could not update workspace' });
+    }
+  });
+
+  app.get("/api/workspaces/:id/members", requireAuth, memberAccess("view"), async (req, res) => {
+    try {
+      const members = await db
+        .select({
+          userId: workspaceMembers.userId,
+          email: users.email,
+          role: workspaceMembers.role,
+          joinedAt: workspaceMembers.createdAt
+        })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(users.id, workspaceMembers.userId))
+        .where(eq(workspaceMembers.workspaceId, req.workspace!.id))
+        .orderBy(asc(workspaceMembers.createdAt));
+      res.json(members);
+    } catch (error: any) {
+      console.error('Member list error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load members' });
+    }
+  });
+
+  app.patch("/api/workspaces/:id/members/:userId", requireAuth, memberAccess("manage"), async (req, res) => {
+    const body = memberRoleSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid role",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const workspaceId = req.workspace!.id;
+      const membership = await findMembership(workspaceId, Number(req.params.userId));
+      if (!membership) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (membership.role === "owner" && body.data.role !== "owner" && await countOwners(workspaceId) === 1) {
+        return res.status(409).json({ error: "A workspace needs at least one owner" });
+      }
+
+      await db.update(workspaceMembers)
+        .set({ role: body.data.role })
+        .where(and(
+          eq(workspaceMembers.workspaceId, workspaceId),
+          eq(workspaceMembers.userId, Number(req.params.userId))
+        ));
+      res.json({ userId: Number(req.params.userId), role: body.data.role });
+    } catch (error: any) {
+      console.error('Member update error:', { error: error.message });
+      res.status(500).json({ error: 'Could not update member' });
+    }
+  });
+
+  // Owners can remove anyone; every member can remove themselves (leave the workspace)
+  app.delete("/api/workspaces/:id/members/:userId", requireAuth, memberAccess("view"), async (req, res) => {
+    const workspaceId = req.workspace!.id;
+    const userId = Number(req.params.userId);
+    if (userId !== req.user!.id && !hasPermission(req.workspace!.role, "manage")) {
+      return res.status(403).json({ error: `A ${req.workspace!.role} cannot do this in ${req.workspace!.name}` });
+    }
+
+    try {
+      const membership = await findMembership(workspaceId, userId);
+      if (!membership) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (membership.role === "owner" && await countOwners(workspaceId) === 1) {
+        return res.status(409).json({ error: "A workspace needs at least one owner" });
+      }
+
+      await db.delete(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Member removal error:', { error: error.message });
+      res.status(500).json({ error: 'Could not remove member' });
+    }
+  });
+
+  app.get("/api/workspaces/:id/invitations", requireAuth, memberAccess("manage"), async (req, res) => {
+    try {
+      const invitations = await db
+        .select({
+          id: workspaceInvitations.id,
+          email: workspaceInvitations.email,
+          role: workspaceInvitations.role,
+          expiresAt: workspaceInvitations.expiresAt,
+          createdAt: workspaceInvitations.createdAt
+        })
+        .from(workspaceInvitations)
+        .where(and(
+          eq(workspaceInvitations.workspaceId, req.workspace!.id),
+          isNull(workspaceInvitations.acceptedAt),
+          gt(workspaceInvitations.expiresAt, new Date())
+        ))
+        .orderBy(asc(workspaceInvitations.createdAt));
+      res.json(invitations);
+    } catch (error: any) {
+      console.error('Invitation list error:', { error: error.message });
+      res.status(500).json({ error: 'Could not load invitations' });
+    }
+  });
+
+  // There is no mail delivery yet, so the owner gets the link to pass on. It is only shown this once:
+  // the token is stored hashed.
+  app.post("/api/workspaces/:id/invitations", requireAuth, memberAccess("manage"), async (req, res) => {
+    const body = invitationSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: "Invalid invitation",
+        details: body.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const workspace = req.workspace!;
+      const [alreadyMember] = await db
+        .select({ userId: workspaceMembers.userId })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(users.id, workspaceMembers.userId))
+        .where(and(eq(workspaceMembers.workspaceId, workspace.id), eq(users.email, body.data.email)));
+      if (alreadyMember) {
+        return res.status(409).json({ error: `${body.data.email} is already a member of ${workspace.name}` });
+      }
+
+      const token = randomBytes(32).toString("hex");
+      const [invitation] = await db.insert(workspaceInvitations).values({
+        workspaceId: workspace.id,
+        email: body.data.email,
+        role: body.data.role,
+        tokenHash: hashToken(token),
+        invitedBy: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL)
+      }).returning();
+
+      const acceptUrl = `${appOrigin(req)}/invitations/accept?token=${token}`;
+      logTokenLink(`Invitation to ${workspace.name} for ${invitation.email}`, acceptUrl, "workspaces");
+      res.status(201).json({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+        acceptUrl
+      });
+    } catch (error: any) {
+      console.error('Invitation error:', { error: error.message });
+      res.status(500).json({ error: 'Could not create invitation' });
+    }
+  });
+
+  app.delete("/api/workspaces/:id/invitations/:invitationId", requireAuth, memberAccess("manage"), async (req, res) => {
+    try {
+      const deleted = await db.delete(workspaceInvitations)
+        .where(and(
+          eq(workspaceInvitations.id, Number(req.params.invitationId)),
+          eq(workspaceInvitations.workspaceId, req.workspace!.id)
+        ))
+        .returning({ id: workspaceInvitations.id });
+      if (deleted.length === 0) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Invitation revoke error:', { error: error.message });
+      res.status(500).json({ error: 'Could not revoke invitation' });
+    }
+  });
+
+  // Invitations are tied to an email address: they can only be accepted by the account that has it
+  app.post("/api/invitations/accept", requireAuth, async (req, res) => {
+    const body = acceptInvitationSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: "Invalid invitation" });
+    }
+
+    try {
+      const [invitation] = await db.select().from(workspaceInvitations)
+        .where(eq(workspaceInvitations.tokenHash, hashToken(body.data.token)));
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+        return res.status(400).json({ error: "This invitation is invalid or has expired" });
+      }
+      if (invitation.email !== req.user!.email) {
+        return res.status(403).json({ error: `This invitation was sent to ${invitation.email}` });
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.insert(workspaceMembers)
+          .values({ workspaceId: invitation.workspaceId, userId: req.user!.id, role: invitation.role })
+          .onConflictDoNothing();
+        await tx.update(workspaceInvitations)
+          .set({ acceptedAt: new Date() })
+          .where(eq(workspaceInvitations.id, invitation.id));
+      });
+
+      req.session.workspaceId = invitation.workspaceId;
+      res.json(await findMembership(invitation.workspaceId, req.user!.id));
+    } catch (error: any) {
+      console.error('Invitation accept error:', { error: error.message });
+      res.status(500).json({ error: 'Could not accept invitation' });
+    }
+  });
+}
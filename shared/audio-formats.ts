@@ -0,0 +1,118 @@
+// The audio formats the detector accepts, shared by the upload form and the server so both
+// agree on what may be sent. Browsers, operating systems and servers label the same format
+// in different ways, so every format lists the variants that are normalized to its type.
+
+// Types
+export type AudioFormatId = "mp3" | "wav" | "aiff" | "flac" | "ogg" | "opus" | "m4a";
+
+// Formats sharing a container can hold each other's audio (an .ogg file may well carry Opus)
+export type AudioContainer = "mpeg" | "riff" | "aiff" | "flac" | "ogg" | "mp4";
+
+export interface AudioFormat {
+  id: AudioFormatId;
+  label: string;
+  mimeType: string;
+  aliases: string[];
+  extensions: string[];
+  container: AudioContainer;
+}
+
+// Constants
+export const AUDIO_FORMATS: AudioFormat[] = [
+  {
+    id: "mp3",
+    label: "MP3",
+    mimeType: "audio/mpeg",
+    aliases: ["audio/mp3", "audio/mpeg3", "audio/x-mp3", "audio/x-mpeg", "audio/x-mpeg-3"],
+    extensions: [".mp3"],
+    container: "mpeg"
+  },
+  {
+    id: "wav",
+    label: "WAV",
+    mimeType: "audio/wav",
+    aliases: ["audio/x-wav", "audio/wave", "audio/x-pn-wav", "audio/vnd.wave"],
+    extensions: [".wav"],
+    container: "riff"
+  },
+  {
+    id: "aiff",
+    label: "AIFF",
+    mimeType: "audio/aiff",
+    aliases: ["audio/x-aiff", "audio/x-aifc", "audio/aifc"],
+    extensions: [".aif", ".aiff", ".aifc"],
+    container: "aiff"
+  },
+  {
+    id: "flac",
+    label: "FLAC",
+    mimeType: "audio/flac",
+    aliases: ["audio/x-flac"],
+    extensions: [".flac"],
+    container: "flac"
+  },
+  {
+    id: "ogg",
+    label: "OGG",
+    mimeType: "audio/ogg",
+    aliases: ["application/ogg", "audio/x-ogg", "audio/vorbis"],
+    extensions: [".ogg", ".oga"],
+    container: "ogg"
+  },
+  {
+    id: "opus",
+    label: "Opus",
+    mimeType: "audio/opus",
+    aliases: ["audio/x-opus"],
+    extensions: [".opus"],
+    container: "ogg"
+  },
+  {
+    // AAC is only accepted inside an MP4 container; raw ADTS streams carry no duration
+    id: "m4a",
+    label: "AAC/M4A",
+    mimeType: "audio/mp4",
+    aliases: ["audio/m4a", "audio/x-m4a"],
+    extensions: [".m4a"],
+    container: "mp4"
+  }
+];
+
+// Types that say nothing about the content, leaving the file extension to decide
+const GENERIC_TYPES = ["", "application/octet-stream", "binary/octet-stream"];
+
+// Drops parameters and case, so "Audio/X-WAV; codecs=1" is found under "audio/x-wav"
+function bareType(type: string) {
+  return type.split(";")[0].trim().toLowerCase();
+}
+
+export function audioFormatById(id: AudioFormatId): AudioFormat {
+  return AUDIO_FORMATS.find((format) => format.id === id)!;
+}
+
+// The format a content type stands for, whether it is the canonical type or one of its aliases
+export function audioFormatByType(type: string): AudioFormat | undefined {
+  const bare = bareType(type);
+  return AUDIO_FORMATS.find((format) => format.mimeType === bare || format.aliases.includes(bare));
+}
+
+export function audioFormatByExtension(fileName: string): AudioFormat | undefined {
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot >= 0 ? fileName.slice(dot).toLowerCase() : "";
+  return extension ? AUDIO_FORMATS.find((format) => format.extensions.includes(extension)) : undefined;
+}
+
+// The accepted format a file claims to be: its content type when that names one, its extension
+// when the type is generic. Undefined means the file is not accepted.
+export function findAudioFormat(type: string, fileName: string): AudioFormat | undefined {
+  return GENERIC_TYPES.includes(bareType(type)) ? audioFormatByExtension(fileName) : audioFormatByType(type);
+}
+
+// Canonical content type for any accepted variant, e.g. "audio/x-flac" becomes "audio/flac"
+export function normalizeAudioType(type: string, fileName = ""): string | undefined {
+  return findAudioFormat(type, fileName)?.mimeType;
+}
+
+export function supportedFormatLabels() {
+  return AUDIO_FORMATS.map((format) => format.label).join(", ");
+}
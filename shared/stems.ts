@@ -0,0 +1,15 @@
+// The stems a track is separated into for stem-level detection, in the order the detector is
+// sent them after the full mix
+
+// Types
+export type Stem = (typeof STEMS)[number];
+
+// Constants
+export const STEMS = ["vocals", "drums", "bass", "other"] as const;
+
+export const STEM_LABELS: Record<Stem, string> = {
+  vocals: "Vocals",
+  drums: "Drums",
+  bass: "Bass",
+  other: "Other"
+};